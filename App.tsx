@@ -1,21 +1,47 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Theme, AppStatus, PresentationData, EvaluationResult, CEFRLevel, SpeakingMistake } from './types';
-import { PREDEFINED_THEMES, CEFR_LEVELS } from './constants';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Theme, AppStatus, PresentationData, PresentationDraft, EvaluationResult, CEFRLevel, SpeakingMistake, ComplianceReport, ScriptSentence } from './types';
+import { PREDEFINED_THEMES, TTS_SAMPLE_RATE } from './constants';
+import { CURRICULUM } from './curriculum';
 import {
   generateImagePrompt,
   generatePresentationScript,
   generateTeacherVoice,
   evaluatePresentation,
   generateScriptFromImage,
-  getApiKey
+  enforceLevelCompliance,
+  ensureProviderReady
 } from './services/geminiService';
+import { AIProviderId, getProviderId, setProviderId as storeProviderId } from './services/aiProvider';
+import { composeScript, PartialScript, splitScriptSentences, splitSentences, splitWords } from './services/scriptParser';
+import { audioBuffersToWav, estimateWordStarts, recordingExtension } from './services/audioUtils';
+import { pickRecordingMimeType } from './services/clipRecorder';
+import { normalizeRecording } from './services/audioNormalizer';
+import { analyzeFluency } from './services/fluencyMetrics';
+import { describeMicError, openMicrophone } from './services/micDevices';
+import { createVoiceActivityDetector, getAutoStopSeconds, isEssentiallySilent, LoudnessWarning, measureFrame, PRE_ROLL_SECONDS } from './services/voiceActivity';
+import { getVoiceSettings, resolveTeacherVoice, setVoiceSettings, SLOW_PLAYBACK_RATE, TeacherVoiceSettings } from './services/voiceCatalog';
+import { isAbortError } from './services/abort';
+import { AIError, classifyError } from './services/aiErrors';
+import { getApiKeys, setApiKeys as storeApiKeys } from './services/keyPool';
+import { isVaultEnabled, isVaultLocked, lockVault, noteVaultActivity, subscribeVault } from './services/keyVault';
+import { getModelChains, ModelChains, setModelChains as storeModelChains } from './services/modelCatalog';
 import SettingsModal from './components/SettingsModal';
+import UnlockKeyModal from './components/UnlockKeyModal';
+import ComplianceCard from './components/ComplianceCard';
+import KaraokeScript from './components/KaraokeScript';
+import ShadowingPanel from './components/ShadowingPanel';
+import TeacherVoicePanel from './components/TeacherVoicePanel';
+import ComparisonPlayer from './components/ComparisonPlayer';
+import FluencyMetricsPanel from './components/FluencyMetricsPanel';
+import WaveformEditor from './components/WaveformEditor';
+import ScriptDiff from './components/ScriptDiff';
+import MicSetupModal from './components/MicSetupModal';
 import {
   Mic, Play, Pause, RotateCcw, Sparkles,
   Trophy, ArrowRight, MessageCircle,
   ShieldCheck, CheckCircle2, X, Medal, Volume2, Printer, Calendar, Edit3, Heart, Home, Copy, ImageIcon, Star, User, Building, Award, Download, AlertCircle,
-  Upload, Settings, RefreshCw
+  Upload, Settings, RefreshCw, ArrowLeft, Lock, Unlock, SkipBack, SkipForward, Headphones
 } from 'lucide-react';
 
 const formatTime = (seconds: number) => {
@@ -24,6 +50,12 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+const LOUDNESS_MESSAGES: Record<LoudnessWarning, { text: string; color: string }> = {
+  clipping: { text: '⚠️ Tiếng bị rè - bé lùi xa micro một chút nhé!', color: '#ef4444' },
+  loud: { text: '📢 Bé nói hơi to - lùi xa micro một chút nhé!', color: '#f59e0b' },
+  quiet: { text: '🔈 Bé nói to hơn một chút nhé!', color: '#f59e0b' },
+};
+
 const App: React.FC = () => {
   const [selectedTheme, setSelectedTheme] = useState<Theme | null>(null);
   const [customThemeLabel, setCustomThemeLabel] = useState('');
@@ -33,22 +65,44 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [presentation, setPresentation] = useState<PresentationData | null>(null);
   const [result, setResult] = useState<EvaluationResult | null>(null);
+  const [compliance, setCompliance] = useState<ComplianceReport | null>(null);
   const [uploadedImage, setUploadedImage] = useState<{ base64: string; mimeType: string; preview: string } | null>(null);
 
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [audioState, setAudioState] = useState<'idle' | 'playing' | 'paused'>('idle');
+  // Karaoke position in the script: the sentence being read (kept while paused) and its spoken word
+  const [spokenSentence, setSpokenSentence] = useState<number | null>(null);
+  const [spokenWord, setSpokenWord] = useState<number | null>(null);
+  const [voiceSettings, setVoiceSettingsState] = useState<TeacherVoiceSettings>(() => getVoiceSettings(childName));
+  const [showVoicePanel, setShowVoicePanel] = useState(false);
+  const [isExportingVoice, setIsExportingVoice] = useState(false);
   const [showCertificate, setShowCertificate] = useState(false);
 
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
+  // The recording as it came from the mic; recordedBlob is the trimmed version when it has been edited
+  const [originalRecording, setOriginalRecording] = useState<Blob | null>(null);
+  // Share of a long recording sent to the file store so far; null while nothing is uploading
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioLevel, setAudioLevel] = useState(0);
+  const [heardSpeech, setHeardSpeech] = useState(false);
+  const [loudnessWarning, setLoudnessWarning] = useState<LoudnessWarning | null>(null);
+  // The last recording held (almost) no speech, so it is not worth an evaluation
+  const [recordingSilent, setRecordingSilent] = useState(false);
 
   // Settings & Error state
   const [showSettings, setShowSettings] = useState(false);
-  const [apiKey, setApiKey] = useState(localStorage.getItem('gemini_api_key') || '');
-  const [selectedModel, setSelectedModel] = useState(localStorage.getItem('selected_model') || 'gemini-3-flash-preview');
-  const [appError, setAppError] = useState<string | null>(null);
+  const [apiKeys, setApiKeys] = useState<string[]>(getApiKeys());
+  const [modelChains, setModelChains] = useState<ModelChains>(getModelChains());
+  const [providerId, setProviderId] = useState<AIProviderId>(getProviderId());
+  const [vaultLocked, setVaultLocked] = useState(isVaultLocked());
+  const [showUnlock, setShowUnlock] = useState(false);
+  const [showMicSetup, setShowMicSetup] = useState(false);
+  const [micSetupError, setMicSetupError] = useState<string | null>(null);
+  const needsApiKey = providerId === 'gemini' && !vaultLocked && apiKeys.length === 0;
+  const [appError, setAppError] = useState<AIError | null>(null);
+  const [retryCountdown, setRetryCountdown] = useState(0);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -63,14 +117,45 @@ const App: React.FC = () => {
   const recAnalysisStreamRef = useRef<MediaStream | null>(null); // Cloned stream for audio analysis
   const recAnimFrameRef = useRef<number | null>(null);
   const recAnalyserRef = useRef<AnalyserNode | null>(null);
+  const vadStateRef = useRef<{ heardSpeech: boolean; speechSeconds: number }>({ heardSpeech: false, speechSeconds: 0 });
 
-  const audioCacheRef = useRef<Map<string, AudioBuffer>>(new Map());
+  // Teacher audio per sentence; pending syntheses are shared so a prefetch is never requested twice
+  const audioCacheRef = useRef<Map<string, Promise<AudioBuffer>>>(new Map());
+  // Bumped whenever teacher playback stops, so an earlier sentence-by-sentence reading knows to give up
+  const playbackIdRef = useRef(0);
+  const karaokeFrameRef = useRef<number | null>(null);
 
-  // Auto-show settings modal if no API key
+  // The AI request in flight (generation or evaluation); aborting it cancels the work
+  const requestRef = useRef<AbortController | null>(null);
+  // Which task the error screen belongs to, so retry and back know where to go
+  const failedTaskRef = useRef<'generate' | 'evaluate'>('generate');
+
+  // Every child keeps their own teacher voice
   useEffect(() => {
-    if (!localStorage.getItem('gemini_api_key')) {
-      setShowSettings(true);
-    }
+    setVoiceSettingsState(getVoiceSettings(childName));
+  }, [childName]);
+
+  // Auto-show the unlock prompt for encrypted keys, or settings if there is no API key
+  useEffect(() => {
+    if (getProviderId() !== 'gemini') return;
+    if (isVaultLocked()) setShowUnlock(true);
+    else if (getApiKeys().length === 0) setShowSettings(true);
+  }, []);
+
+  // Follow the key vault as it unlocks and auto-locks
+  useEffect(() => subscribeVault(() => {
+    setVaultLocked(isVaultLocked());
+    setApiKeys(getApiKeys());
+  }), []);
+
+  // Any touch or key press keeps an unlocked vault open
+  useEffect(() => {
+    window.addEventListener('pointerdown', noteVaultActivity);
+    window.addEventListener('keydown', noteVaultActivity);
+    return () => {
+      window.removeEventListener('pointerdown', noteVaultActivity);
+      window.removeEventListener('keydown', noteVaultActivity);
+    };
   }, []);
 
   useEffect(() => {
@@ -88,21 +173,73 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const handleSaveSettings = useCallback((key: string, model: string) => {
-    localStorage.setItem('gemini_api_key', key);
-    localStorage.setItem('selected_model', model);
-    setApiKey(key);
-    setSelectedModel(model);
+  const handleSaveSettings = useCallback((keys: string[], chains: ModelChains, provider: AIProviderId) => {
+    // A locked vault hides the keys from the form, so there is nothing to save
+    if (!isVaultLocked()) storeApiKeys(keys);
+    storeModelChains(chains);
+    storeProviderId(provider);
+    setApiKeys(getApiKeys());
+    setModelChains(chains);
+    setProviderId(provider);
+    audioCacheRef.current.clear();
     setShowSettings(false);
 
     // Clear error when saving new key
-    if (appError) {
-      setAppError(null);
-      setStatus(AppStatus.IDLE);
-    }
+    if (appError) leaveErrorScreen();
   }, [appError]);
 
+  // Counts down the pause a quota error asks for before retry is allowed
+  useEffect(() => {
+    if (retryCountdown <= 0) return;
+    const timer = setTimeout(() => setRetryCountdown(s => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryCountdown]);
+
+  // A missing key opens settings, a locked one asks for the passphrase
+  const openKeySetup = (err: unknown) => {
+    if (classifyError(err).kind === 'key-locked') setShowUnlock(true);
+    else setShowSettings(true);
+  };
+
+  // Puts a failed AI task on the error screen; the error kind decides the advice and buttons
+  const showError = (err: unknown, task: 'generate' | 'evaluate') => {
+    const error = classifyError(err);
+    failedTaskRef.current = task;
+    setAppError(error);
+    setRetryCountdown(error.action === 'wait-retry' ? error.waitSeconds ?? 0 : 0);
+    setStatus(AppStatus.ERROR);
+  };
+
+  const leaveErrorScreen = () => {
+    setAppError(null);
+    setStatus(failedTaskRef.current === 'evaluate' ? AppStatus.REVIEWING : AppStatus.IDLE);
+  };
+
+  // Cancels whatever AI work is running and hands out a signal for the next one
+  const startRequest = (): AbortSignal => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+  };
+
+  const stopKaraoke = () => {
+    if (karaokeFrameRef.current) {
+      cancelAnimationFrame(karaokeFrameRef.current);
+      karaokeFrameRef.current = null;
+    }
+    setSpokenWord(null);
+  };
+
   const stopTeacherAudio = () => {
+    playbackIdRef.current++;
+    stopKaraoke();
+    setIsAudioLoading(false);
     if (sourceNodeRef.current) {
       sourceNodeRef.current.stop();
       sourceNodeRef.current = null;
@@ -115,7 +252,7 @@ const App: React.FC = () => {
       const url = URL.createObjectURL(recordedBlob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `Speaking_${childName}_${new Date().getTime()}.webm`;
+      link.download = `Speaking_${childName}_${new Date().getTime()}.${recordingExtension(recordedBlob.type)}`;
       link.click();
       setTimeout(() => URL.revokeObjectURL(url), 1000);
     }
@@ -147,31 +284,61 @@ const App: React.FC = () => {
 
     // Check for API key
     try {
-      getApiKey();
-    } catch {
-      setShowSettings(true);
+      ensureProviderReady();
+    } catch (err) {
+      openKeySetup(err);
       return;
     }
 
+    const signal = startRequest();
+
     try {
+      stopTeacherAudio();
       setStatus(AppStatus.GENERATING);
       setAppError(null);
+      setPresentation(null);
+      setSpokenSentence(null);
+      setCompliance(null);
 
-      let scriptData;
-      let finalImageUri;
+      let scriptData: PresentationDraft;
+      let finalImageUri: string | undefined;
       let finalImagePrompt = "";
+      let streamedIntro = '';
+      let introVoice: Promise<boolean> | null = null;
+
+      // Show each part in the READY layout as soon as it has streamed in
+      const showPartial = (partial: PartialScript) => {
+        if (signal.aborted) return;
+        const draft = { intro: partial.intro || '', points: partial.points, conclusion: partial.conclusion || '', lessonVocab: partial.lessonVocab };
+        setPresentation({ ...draft, imageUri: finalImageUri, imagePrompt: finalImagePrompt, script: composeScript(draft), level });
+
+        // The intro is final once it appears — let the teacher start reading it
+        if (!introVoice && partial.intro) {
+          streamedIntro = partial.intro;
+          introVoice = playSentences(splitScriptSentences({ ...draft, points: [], conclusion: '' }), 0, signal).catch(e => {
+            if (!isAbortError(e)) console.warn('[SpeakPro] Intro teacher voice failed:', e);
+            return false;
+          });
+        }
+      };
 
       if (uploadedImage) {
-        scriptData = await generateScriptFromImage(uploadedImage.base64, uploadedImage.mimeType, level, childName);
         finalImageUri = uploadedImage.preview;
         finalImagePrompt = "Phân tích từ ảnh tải lên";
+        scriptData = await generateScriptFromImage(uploadedImage.base64, uploadedImage.mimeType, level, childName, showPartial, signal);
       } else {
         const finalThemeLabel = customThemeLabel || selectedTheme?.label || "";
-        finalImagePrompt = await generateImagePrompt(finalThemeLabel);
-        scriptData = await generatePresentationScript(finalImagePrompt, customText, level, childName, finalThemeLabel);
+        finalImagePrompt = await generateImagePrompt(finalThemeLabel, signal);
+        scriptData = await generatePresentationScript(finalImagePrompt, customText, level, childName, finalThemeLabel, showPartial, signal);
       }
 
-      const fullScript = `${scriptData.intro} ${scriptData.points.join(' ')} ${scriptData.conclusion}`;
+      const exemptWords = [childName, customText, ...scriptData.lessonVocab.map(v => v.word)];
+      const checked = await enforceLevelCompliance(scriptData, level, exemptWords, signal);
+      if (signal.aborted) return;
+      scriptData = checked.draft;
+      setCompliance(checked.report);
+
+      const fullScript = composeScript(scriptData);
 
       setPresentation({
         imageUri: finalImageUri,
@@ -185,38 +352,31 @@ const App: React.FC = () => {
       });
       setStatus(AppStatus.READY);
 
-      // Auto-play teacher voice right after content is generated
-      try {
-        setIsAudioLoading(true);
-        if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-        const buffer = await generateTeacherVoice(fullScript);
-        audioCacheRef.current.set(fullScript, buffer);
-
-        const source = audioContextRef.current.createBufferSource();
-        source.buffer = buffer;
-        source.connect(audioContextRef.current.destination);
-        source.start(0);
-        sourceNodeRef.current = source;
-        setAudioState('playing');
-        source.onended = () => { setAudioState('idle'); sourceNodeRef.current = null; };
-      } catch (e) {
-        console.warn('[SpeakPro] Auto-play teacher voice failed:', e);
+      // Auto-play teacher voice: continue after the streamed intro, or read the whole script
+      const sentences = splitScriptSentences(scriptData);
+      const introCount = splitSentences(streamedIntro).length;
+      const readAloud = async () => {
+        if (introVoice && scriptData.intro === streamedIntro) {
+          // Have the first sentence after the intro ready by the time the intro ends
+          if (sentences[introCount]) loadTeacherVoice(sentences[introCount].text, signal).catch(() => { });
+          if (await introVoice && !signal.aborted) await playSentences(sentences, introCount, signal);
+        } else {
+          // No intro was read while streaming, or the level rewrite changed it — read it all
+          await playSentences(sentences, 0, signal);
+        }
+      };
+      readAloud().catch(e => {
+        if (!isAbortError(e)) console.warn('[SpeakPro] Auto-play teacher voice failed:', e);
         setAudioState('idle');
-      } finally {
-        setIsAudioLoading(false);
-      }
+      });
     } catch (err: any) {
+      // Cancelled or replaced by a newer lesson: nothing to show
+      if (signal.aborted || isAbortError(err)) return;
       console.error("Generate error:", err);
-      setAppError(err?.message || "Lỗi không xác định. Bé hãy thử lại nhé!");
-      setStatus(AppStatus.ERROR);
+      showError(err, 'generate');
     }
   };
 
-  const handleRetry = useCallback(() => {
-    setAppError(null);
-    setStatus(AppStatus.IDLE);
-  }, []);
-
   const cleanupRecordingAudio = () => {
     if (recAnimFrameRef.current) {
       cancelAnimationFrame(recAnimFrameRef.current);
@@ -238,6 +398,7 @@ const App: React.FC = () => {
     }
     recAnalyserRef.current = null;
     setAudioLevel(0);
+    setLoudnessWarning(null);
   };
 
   const startRecording = async () => {
@@ -256,12 +417,16 @@ const App: React.FC = () => {
     }
     setRecordedUrl(null);
     setRecordedBlob(null);
+    setOriginalRecording(null);
     setRecordingTime(0);
+    setHeardSpeech(false);
+    setRecordingSilent(false);
+    vadStateRef.current = { heardSpeech: false, speechSeconds: 0 };
     audioChunksRef.current = [];
 
     try {
-      // Step 1: Get mic stream
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Step 1: Get mic stream from the microphone chosen in mic setup
+      const stream = await openMicrophone();
       recStreamRef.current = stream;
 
       // Verify track is live
@@ -275,8 +440,8 @@ const App: React.FC = () => {
       // CRITICAL: createMediaStreamSource() consumes the audio data from a stream
       // in Chromium-based browsers. If we use the original stream for both
       // AudioContext analysis AND MediaRecorder, the recorder gets silence.
-      // Solution: clone the stream — original goes to MediaRecorder untouched,
-      // clone goes to AudioContext for the level meter.
+      // Solution: the clone goes to AudioContext for the level meter, and the
+      // recorder gets its own copy of the original through a delay line.
       const analysisStream = stream.clone();
       recAnalysisStreamRef.current = analysisStream;
 
@@ -292,35 +457,24 @@ const App: React.FC = () => {
       // Connect: Cloned Mic → Analyser (just for visualization, no destination needed)
       sourceNode.connect(analyser);
 
-      // Step 3: Start audio level monitoring
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-      const updateLevel = () => {
-        if (!recAnalyserRef.current) return;
-        recAnalyserRef.current.getByteFrequencyData(dataArray);
-        const avg = dataArray.reduce((sum, v) => sum + v, 0) / dataArray.length;
-        setAudioLevel(Math.min(100, Math.round((avg / 128) * 100)));
-        recAnimFrameRef.current = requestAnimationFrame(updateLevel);
-      };
-      recAnimFrameRef.current = requestAnimationFrame(updateLevel);
-
-      // Step 4: Create MediaRecorder on the ORIGINAL (untouched) stream
-      // The original stream has NOT been connected to any AudioContext,
-      // so its audio data is fully available for the MediaRecorder.
-      const supportedTypes = [
-        'audio/webm;codecs=opus',
-        'audio/webm',
-        'audio/ogg;codecs=opus',
-        'audio/mp4',
-        'audio/aac'
-      ];
-      const mimeType = supportedTypes.find(type => MediaRecorder.isTypeSupported(type)) || '';
+      // Step 3: Original mic → delay → recorder input. The recorder hears
+      // everything PRE_ROLL_SECONDS late, so starting it on the first detected
+      // speech still catches the beginning of the first word.
+      const preRoll = audioCtx.createDelay(PRE_ROLL_SECONDS * 2);
+      preRoll.delayTime.value = PRE_ROLL_SECONDS;
+      const recorderInput = audioCtx.createMediaStreamDestination();
+      audioCtx.createMediaStreamSource(stream).connect(preRoll);
+      preRoll.connect(recorderInput);
+
+      // Step 4: Create the MediaRecorder; it stays armed until the child speaks
+      const mimeType = pickRecordingMimeType();
       console.log('[SpeakPro] Selected MIME type:', mimeType || 'default');
 
       const recorderOptions: MediaRecorderOptions = {
         ...(mimeType ? { mimeType } : {}),
         audioBitsPerSecond: 128000
       };
-      const recorder = new MediaRecorder(stream, recorderOptions);
+      const recorder = new MediaRecorder(recorderInput.stream, recorderOptions);
       mediaRecorderRef.current = recorder;
 
       recorder.ondataavailable = (e) => {
@@ -330,6 +484,8 @@ const App: React.FC = () => {
       };
 
       recorder.onstop = () => {
+        // A newer recording has already taken over the mic
+        if (mediaRecorderRef.current !== recorder) return;
         const finalMimeType = recorder.mimeType || mimeType || 'audio/webm';
         const blob = new Blob(audioChunksRef.current, { type: finalMimeType });
         console.log('[SpeakPro] Recording stopped. Chunks:', audioChunksRef.current.length, 'Blob size:', blob.size, 'bytes, Type:', blob.type);
@@ -340,37 +496,84 @@ const App: React.FC = () => {
         }
 
         setRecordedBlob(blob);
+        setOriginalRecording(blob);
         setRecordedUrl(URL.createObjectURL(blob));
         cleanupRecordingAudio();
       };
 
-      // Start with timeslice for periodic data capture
-      recorder.start(250);
-      setStatus(AppStatus.RECORDING);
-      timerIntervalRef.current = window.setInterval(() => setRecordingTime(p => p + 1), 1000);
+      // Step 5: Audio level monitoring and voice activity detection, which
+      // starts the recorder at the first speech and stops it after the silence
+      const dataArray = new Uint8Array(analyser.frequencyBinCount);
+      const samples = new Float32Array(analyser.fftSize);
+      const vad = createVoiceActivityDetector(getAutoStopSeconds());
+      let lastFrameAt = performance.now();
+      const updateLevel = () => {
+        if (!recAnalyserRef.current) return;
+        recAnalyserRef.current.getByteFrequencyData(dataArray);
+        const avg = dataArray.reduce((sum, v) => sum + v, 0) / dataArray.length;
+        setAudioLevel(Math.min(100, Math.round((avg / 128) * 100)));
 
-      console.log('[SpeakPro] Recording started. Recorder state:', recorder.state);
+        recAnalyserRef.current.getFloatTimeDomainData(samples);
+        const now = performance.now();
+        const vadState = vad.push(measureFrame(samples), (now - lastFrameAt) / 1000);
+        lastFrameAt = now;
+        vadStateRef.current = vadState;
+        setHeardSpeech(vadState.heardSpeech);
+        setLoudnessWarning(vadState.warning);
+        if (vadState.shouldStart && recorder.state === 'inactive') {
+          // Start with timeslice for periodic data capture
+          recorder.start(250);
+          timerIntervalRef.current = window.setInterval(() => setRecordingTime(p => p + 1), 1000);
+          console.log('[SpeakPro] Speech heard, recording started. Recorder state:', recorder.state);
+        }
+        if (vadState.shouldStop) {
+          console.log('[SpeakPro] Auto-stop after silence. Speech:', vadState.speechSeconds.toFixed(1), 's');
+          stopRecording();
+          return;
+        }
+        recAnimFrameRef.current = requestAnimationFrame(updateLevel);
+      };
+      recAnimFrameRef.current = requestAnimationFrame(updateLevel);
+
+      setStatus(AppStatus.RECORDING);
+      console.log('[SpeakPro] Recorder armed, waiting for speech');
     } catch (err: any) {
       console.error('[SpeakPro] Recording error:', err);
       cleanupRecordingAudio();
-      alert(err?.message?.includes('Microphone track')
-        ? 'Micro không hoạt động. Hãy kiểm tra micro hoặc thử trình duyệt khác.'
-        : 'Không thể truy cập Micro. Bé hãy kiểm tra quyền truy cập micro của trình duyệt nhé!');
+      setMicSetupError(err?.message?.includes('Microphone track')
+        ? '🎙️ Micro không hoạt động. Thầy cô thử chọn micro khác hoặc dùng trình duyệt khác nhé!'
+        : describeMicError(err));
+      setShowMicSetup(true);
       setStatus(AppStatus.READY);
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      // Request any pending data before stopping
-      try { mediaRecorderRef.current.requestData(); } catch (_) { }
-      mediaRecorderRef.current.stop();
+    const recorder = mediaRecorderRef.current;
+    if (recAnimFrameRef.current) {
+      cancelAnimationFrame(recAnimFrameRef.current);
+      recAnimFrameRef.current = null;
+    }
+    if (recorder && recorder.state !== 'inactive') {
+      // The last PRE_ROLL_SECONDS are still in the delay line; let them reach the recorder
+      window.setTimeout(() => {
+        if (recorder.state === 'inactive') return;
+        // Request any pending data before stopping
+        try { recorder.requestData(); } catch (_) { }
+        recorder.stop();
+      }, PRE_ROLL_SECONDS * 1000);
+    } else {
+      // Stopped before the child said anything: the recorder never started
+      cleanupRecordingAudio();
+      setRecordedBlob(null);
+      setOriginalRecording(null);
     }
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
       timerIntervalRef.current = null;
     }
     // Note: cleanupRecordingAudio is called in recorder.onstop
+    setRecordingSilent(isEssentiallySilent(vadStateRef.current));
     setStatus(AppStatus.REVIEWING);
   };
 
@@ -443,46 +646,260 @@ const App: React.FC = () => {
       });
   };
 
+  // Playback, download and evaluation all use the edited recording from now on
+  const applyRecordingEdit = (edited: Blob | null) => {
+    if (playbackAudioRef.current) {
+      playbackAudioRef.current.pause();
+      if (playbackAudioRef.current.src) URL.revokeObjectURL(playbackAudioRef.current.src);
+      playbackAudioRef.current = null;
+    }
+    setIsPlayingRecorded(false);
+    const blob = edited ?? originalRecording;
+    if (recordedUrl) URL.revokeObjectURL(recordedUrl);
+    setRecordedBlob(blob);
+    setRecordedUrl(blob ? URL.createObjectURL(blob) : null);
+  };
+
   const handleEvaluate = async () => {
-    if (!recordedBlob) return;
+    if (!recordedBlob || recordingSilent) return;
 
     // Check for API key
     try {
-      getApiKey();
-    } catch {
-      setShowSettings(true);
+      ensureProviderReady();
+    } catch (err) {
+      openKeySetup(err);
       return;
     }
 
+    const signal = startRequest();
+
     try {
       setStatus(AppStatus.EVALUATING);
       setAppError(null);
-      const reader = new FileReader();
-
-      const resultPromise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = reject;
-      });
-
-      reader.readAsDataURL(recordedBlob);
-      const base64 = await resultPromise;
+      setUploadProgress(null);
+      if (!recordedBlob.size) throw new AIError('unsupported-audio', 'empty recording');
+      const upload = await normalizeRecording(recordedBlob);
+      if (signal.aborted) return;
+      const metrics = await analyzeFluency(recordedBlob, presentation!.script, level, signal);
+      if (signal.aborted) return;
 
       const res = await evaluatePresentation(
         presentation!.script,
-        base64,
-        recordedBlob.type,
-        level
+        upload,
+        level,
+        metrics,
+        signal,
+        setUploadProgress
       );
+      if (signal.aborted) return;
 
       setResult(res);
       setStatus(AppStatus.RESULT);
     } catch (err: any) {
+      if (signal.aborted || isAbortError(err)) return;
       console.error("Evaluation error:", err);
-      setAppError(err?.message || "Lỗi khi chấm bài. Bé hãy thử lại nhé!");
-      setStatus(AppStatus.ERROR);
+      showError(err, 'evaluate');
     }
   };
 
+  const handleRetry = () => {
+    setAppError(null);
+    if (failedTaskRef.current === 'evaluate') handleEvaluate();
+    else handleGenerate();
+  };
+
+  const handleRecordAgain = () => {
+    setAppError(null);
+    setStatus(AppStatus.READY);
+  };
+
+  // Back to theme selection without reloading the page, which would lock the key vault again
+  const startNewLesson = () => {
+    cancelRequest();
+    stopTeacherAudio();
+    // Dropping the recorder first keeps its onstop from storing a recording
+    const recorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+      timerIntervalRef.current = null;
+    }
+    cleanupRecordingAudio();
+    if (playbackAudioRef.current) {
+      playbackAudioRef.current.pause();
+      if (playbackAudioRef.current.src) URL.revokeObjectURL(playbackAudioRef.current.src);
+      playbackAudioRef.current = null;
+    }
+    setIsPlayingRecorded(false);
+    if (recordedUrl) URL.revokeObjectURL(recordedUrl);
+    setRecordedUrl(null);
+    setRecordedBlob(null);
+    setOriginalRecording(null);
+    setRecordingTime(0);
+    setRecordingSilent(false);
+    setHeardSpeech(false);
+
+    setSelectedTheme(null);
+    setCustomThemeLabel('');
+    setCustomText('');
+    setUploadedImage(null);
+    setPresentation(null);
+    setCompliance(null);
+    setResult(null);
+    setShowCertificate(false);
+    setShowVoicePanel(false);
+    setSpokenSentence(null);
+    setAppError(null);
+    setRetryCountdown(0);
+    setUploadProgress(null);
+    audioCacheRef.current.clear();
+    setStatus(AppStatus.IDLE);
+    window.scrollTo({ top: 0 });
+  };
+
+  const teacherVoice = useMemo(() => resolveTeacherVoice(voiceSettings, presentation?.level ?? level), [voiceSettings, presentation?.level, level]);
+
+  const updateVoiceSettings = (settings: TeacherVoiceSettings) => {
+    setVoiceSettingsState(settings);
+    setVoiceSettings(childName, settings);
+  };
+
+  const loadTeacherVoice = (text: string, signal?: AbortSignal): Promise<AudioBuffer> => {
+    // The same sentence sounds different in another voice or style
+    const key = `${teacherVoice.voiceName}|${teacherVoice.instruction}|${text}`;
+    const cached = audioCacheRef.current.get(key);
+    if (cached) return cached;
+    const buffer = generateTeacherVoice(text, teacherVoice, signal);
+    audioCacheRef.current.set(key, buffer);
+    // A failed or cancelled synthesis must not stay cached
+    buffer.catch(() => {
+      if (audioCacheRef.current.get(key) === buffer) audioCacheRef.current.delete(key);
+    });
+    return buffer;
+  };
+
+  // Moves the word highlight along with the audio, from estimated word timings
+  const followWords = (ctx: AudioContext, startedAt: number, wordStarts: number[], rate: number) => {
+    const tick = () => {
+      const elapsed = (ctx.currentTime - startedAt) * rate;
+      let word = 0;
+      while (word + 1 < wordStarts.length && wordStarts[word + 1] <= elapsed) word++;
+      setSpokenWord(word);
+      karaokeFrameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  // Resolves when playback ends: true if it played to the end, false if it was stopped.
+  // With `karaokeText`, the words of that text are highlighted as they are spoken.
+  const playTeacherBuffer = (buffer: AudioBuffer, karaokeText?: string): Promise<boolean> => {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: TTS_SAMPLE_RATE });
+    const ctx = audioContextRef.current;
+    const source = ctx.createBufferSource();
+    const rate = voiceSettings.slowPlayback ? SLOW_PLAYBACK_RATE : 1;
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(ctx.destination);
+    source.start(0);
+    sourceNodeRef.current = source;
+    setAudioState('playing');
+    if (karaokeText) followWords(ctx, ctx.currentTime, estimateWordStarts(splitWords(karaokeText), buffer.duration), rate);
+    return new Promise<boolean>(resolve => {
+      source.onended = () => {
+        const finished = sourceNodeRef.current === source;
+        if (finished) {
+          setAudioState('idle');
+          sourceNodeRef.current = null;
+          stopKaraoke();
+        }
+        resolve(finished);
+      };
+    });
+  };
+
+  // Reads the sentences aloud one by one from `from` up to (not including) `until`, synthesizing
+  // the next while the current one plays. Resolves true once the last one finished, false if
+  // playback was stopped or replaced.
+  const playSentences = async (sentences: ScriptSentence[], from: number, signal?: AbortSignal, until = sentences.length): Promise<boolean> => {
+    stopTeacherAudio();
+    const playbackId = playbackIdRef.current;
+    const isCurrent = () => playbackIdRef.current === playbackId && !signal?.aborted;
+
+    for (let i = from; i < until; i++) {
+      setSpokenSentence(i);
+      setIsAudioLoading(true);
+      let buffer: AudioBuffer;
+      try {
+        buffer = await loadTeacherVoice(sentences[i].text, signal);
+      } finally {
+        if (playbackIdRef.current === playbackId) setIsAudioLoading(false);
+      }
+      if (!isCurrent()) return false;
+
+      if (sentences[i + 1]) loadTeacherVoice(sentences[i + 1].text, signal).catch(() => { });
+      if (!await playTeacherBuffer(buffer, sentences[i].text)) return false;
+    }
+
+    if (isCurrent()) setSpokenSentence(null);
+    return true;
+  };
+
+  const scriptSentences = useMemo(() => presentation ? splitScriptSentences(presentation) : [], [presentation]);
+
+  const readScriptFrom = (index: number) => {
+    if (scriptSentences.length === 0) return;
+    const from = Math.max(0, Math.min(index, scriptSentences.length - 1));
+    playSentences(scriptSentences, from).catch(e => {
+      console.warn('[SpeakPro] Teacher voice failed:', e);
+      setAudioState('idle');
+    });
+  };
+
+  // Pauses on the current sentence, or reads on from it
+  const toggleScriptVoice = () => {
+    if (audioState === 'playing' || isAudioLoading) stopTeacherAudio();
+    else readScriptFrom(spokenSentence ?? 0);
+  };
+
+  // The whole script in the teacher voice as a WAV file, for listening offline at home
+  const downloadTeacherAudio = async () => {
+    if (isExportingVoice || scriptSentences.length === 0) return;
+    setIsExportingVoice(true);
+    try {
+      const buffers: AudioBuffer[] = [];
+      for (const sentence of scriptSentences) buffers.push(await loadTeacherVoice(sentence.text));
+      const url = URL.createObjectURL(audioBuffersToWav(buffers));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Teacher_${childName}_${new Date().getTime()}.wav`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.warn('[SpeakPro] Teacher audio export failed:', err);
+      alert(classifyError(err).message);
+    } finally {
+      setIsExportingVoice(false);
+    }
+  };
+
+  const startShadowing = () => {
+    stopTeacherAudio();
+    setSpokenSentence(null);
+    setStatus(AppStatus.SHADOWING);
+  };
+
+  const finishShadowing = (res: EvaluationResult) => {
+    stopTeacherAudio();
+    // The takes are scored one by one, so there is no single recording to replay or download
+    if (recordedUrl) URL.revokeObjectURL(recordedUrl);
+    setRecordedUrl(null);
+    setRecordedBlob(null);
+    setOriginalRecording(null);
+    setResult(res);
+    setStatus(AppStatus.RESULT);
+  };
+
   const toggleTeacherVoice = async (text: string) => {
     if (isAudioLoading) return;
     if (audioState === 'playing') {
@@ -492,24 +909,14 @@ const App: React.FC = () => {
 
     try {
       setIsAudioLoading(true);
-      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-      let buffer = audioCacheRef.current.get(text) || await generateTeacherVoice(text);
-      audioCacheRef.current.set(text, buffer);
-
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = buffer;
-      source.connect(audioContextRef.current.destination);
-      source.start(0);
-      sourceNodeRef.current = source;
-      setAudioState('playing');
-      source.onended = () => { setAudioState('idle'); sourceNodeRef.current = null; };
+      playTeacherBuffer(await loadTeacherVoice(text));
     } catch (e) { setAudioState('idle'); } finally { setIsAudioLoading(false); }
   };
 
   return (
     <div className="min-h-screen bg-[#fffcf5] pb-32 font-['Quicksand'] text-slate-700">
       <header className="bg-white/90 backdrop-blur-md border-b-4 border-orange-100 sticky top-0 z-50 px-4 md:px-8 py-4 flex items-center justify-between no-print shadow-sm">
-        <div className="flex items-center gap-3 cursor-pointer group" onClick={() => window.location.reload()}>
+        <div className="flex items-center gap-3 cursor-pointer group" onClick={startNewLesson}>
           <div className="bg-orange-500 p-2 rounded-2xl text-white group-hover:rotate-12 transition-all"><Sparkles size={24} /></div>
           <h1 className="text-2xl font-black text-orange-500 italic tracking-tighter">Speakpro Lab</h1>
         </div>
@@ -528,8 +935,26 @@ const App: React.FC = () => {
             <input type="text" value={childName} onChange={e => setChildName(e.target.value)} className="bg-transparent border-none font-black w-16 md:w-24 text-center outline-none focus:text-orange-600 transition-colors" placeholder="Tên bé" />
           </div>
           <select value={level} onChange={e => setLevel(e.target.value as CEFRLevel)} className="bg-blue-50 px-3 md:px-4 py-2 rounded-xl font-black text-blue-500 text-xs shadow-inner outline-none">
-            {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+            {CURRICULUM.map(l => <option key={l.id} value={l.id} title={l.name}>{l.id} · {l.descriptor}</option>)}
           </select>
+          {/* Key vault lock */}
+          {providerId === 'gemini' && isVaultEnabled() && (
+            <button
+              onClick={() => vaultLocked ? setShowUnlock(true) : lockVault()}
+              title={vaultLocked ? 'Mở khoá API Key' : 'Khoá API Key'}
+              className={`p-2 rounded-xl border-2 transition-all ${vaultLocked ? 'bg-red-50 border-red-100 text-red-500' : 'bg-emerald-50 border-emerald-100 text-emerald-500'}`}
+            >
+              {vaultLocked ? <Lock size={18} /> : <Unlock size={18} />}
+            </button>
+          )}
+          {/* Mic setup */}
+          <button
+            onClick={() => { setMicSetupError(null); setShowMicSetup(true); }}
+            title="Kiểm tra micro"
+            className="p-2 rounded-xl border-2 bg-slate-100 border-slate-200 text-slate-500 hover:bg-slate-200 transition-all"
+          >
+            <Mic size={18} />
+          </button>
           {/* Settings Button */}
           <button
             onClick={() => setShowSettings(true)}
@@ -537,13 +962,13 @@ const App: React.FC = () => {
           >
             <Settings size={18} className="text-slate-500" />
             <span className="hidden md:inline text-xs font-black text-slate-500 uppercase">API Key</span>
-            {!apiKey && <span className="text-[10px] font-black text-red-500 animate-pulse hidden md:inline">⚠️ Chưa có key</span>}
+            {needsApiKey && <span className="text-[10px] font-black text-red-500 animate-pulse hidden md:inline">⚠️ Chưa có key</span>}
           </button>
         </div>
       </header>
 
       {/* API Key Warning Banner */}
-      {!apiKey && (
+      {needsApiKey && (
         <div className="bg-red-50 border-b-2 border-red-100 px-6 py-3 flex items-center justify-center gap-3 no-print">
           <AlertCircle size={18} className="text-red-500" />
           <p className="text-sm font-bold text-red-600">
@@ -566,22 +991,55 @@ const App: React.FC = () => {
               </div>
               <div className="space-y-4">
                 <h3 className="text-3xl font-black text-red-600 uppercase italic tracking-tighter">Oops! Có lỗi rồi 😥</h3>
-                <div className="bg-red-50 p-6 rounded-2xl border-2 border-dashed border-red-200">
-                  <p className="text-sm font-bold text-red-700 break-words leading-relaxed text-left">{appError}</p>
+                <div className="bg-red-50 p-6 rounded-2xl border-2 border-dashed border-red-200 space-y-3">
+                  <p className="text-base font-bold text-red-700 break-words leading-relaxed text-left">{appError.message}</p>
+                  {appError.detail && (
+                    <details className="text-left">
+                      <summary className="text-[11px] font-black uppercase text-red-300 cursor-pointer">Chi tiết cho người lớn</summary>
+                      <p className="mt-2 text-xs font-mono text-red-400 break-words">{appError.detail}</p>
+                    </details>
+                  )}
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                {appError.action === 'open-settings' && (
+                  <button
+                    onClick={() => setShowSettings(true)}
+                    className="px-8 py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic"
+                  >
+                    <Settings size={22} /> Mở cài đặt
+                  </button>
+                )}
+                {(appError.action === 'retry' || appError.action === 'wait-retry') && (
+                  <button
+                    onClick={handleRetry}
+                    disabled={retryCountdown > 0}
+                    className="px-8 py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic disabled:opacity-50 disabled:hover:scale-100"
+                  >
+                    <RefreshCw size={22} /> {retryCountdown > 0 ? `Chờ ${retryCountdown}s` : 'Thử lại'}
+                  </button>
+                )}
+                {appError.action === 'unlock' && (
+                  <button
+                    onClick={() => setShowUnlock(true)}
+                    className="px-8 py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic"
+                  >
+                    <Unlock size={22} /> Mở khoá key
+                  </button>
+                )}
+                {appError.action === 're-record' && (
+                  <button
+                    onClick={handleRecordAgain}
+                    className="px-8 py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic"
+                  >
+                    <Mic size={22} /> Ghi âm lại
+                  </button>
+                )}
                 <button
-                  onClick={handleRetry}
-                  className="px-8 py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic"
-                >
-                  <RefreshCw size={22} /> Thử lại
-                </button>
-                <button
-                  onClick={() => setShowSettings(true)}
+                  onClick={leaveErrorScreen}
                   className="px-8 py-4 bg-slate-800 text-white rounded-full font-black text-lg shadow-xl hover:scale-105 active:scale-95 transition-all flex items-center justify-center gap-3 uppercase italic"
                 >
-                  <Settings size={22} /> Đổi API Key
+                  <ArrowLeft size={22} /> Quay lại
                 </button>
               </div>
             </div>
@@ -651,13 +1109,14 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {status === AppStatus.GENERATING && (
+        {status === AppStatus.GENERATING && !presentation && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] gap-10">
             <div className="w-36 md:w-48 h-36 md:h-48 bg-orange-100 rounded-[4rem] flex items-center justify-center text-7xl md:text-8xl shadow-2xl animate-bounce">🖌️</div>
             <h3 className="text-2xl md:text-4xl font-black text-slate-800 uppercase italic animate-pulse text-center">AI đang soạn bài cho bé...</h3>
             <p className="text-sm text-slate-400 font-bold">Thường mất 10-30 giây</p>
             <button
               onClick={() => {
+                cancelRequest();
                 setStatus(AppStatus.IDLE);
                 setAppError(null);
               }}
@@ -668,7 +1127,7 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {presentation && (status === AppStatus.READY || status === AppStatus.RECORDING || status === AppStatus.REVIEWING) && (
+        {presentation && (status === AppStatus.GENERATING || status === AppStatus.READY || status === AppStatus.RECORDING || status === AppStatus.REVIEWING) && (
           <div className="space-y-10 pb-48 animate-in fade-in duration-700">
             <div className="relative bg-white rounded-[3rem] md:rounded-[4.5rem] shadow-2xl border-[10px] md:border-[16px] border-white p-8 md:p-16 overflow-hidden">
               {presentation.imageUri && (
@@ -681,23 +1140,47 @@ const App: React.FC = () => {
                   <div className="bg-orange-500 p-3 md:p-4 rounded-[1.5rem] text-white shadow-xl rotate-3"><MessageCircle size={28} /></div>
                   <h4 className="text-xl md:text-3xl font-black italic tracking-tighter text-slate-800 uppercase">Kịch bản thuyết trình</h4>
                 </div>
-                <button onClick={() => toggleTeacherVoice(presentation.script)} className={`w-14 h-14 md:w-16 md:h-16 rounded-[2rem] flex items-center justify-center transition-all shadow-xl ${audioState === 'playing' ? 'bg-red-500 animate-pulse' : 'bg-orange-500 hover:scale-105'}`}>
-                  {isAudioLoading ? <div className="w-6 h-6 border-4 border-white border-t-transparent animate-spin rounded-full"></div> : audioState === 'playing' ? <Pause className="text-white" size={24} /> : <Play className="text-white ml-1" size={24} />}
-                </button>
+                <div className="flex items-center gap-2 md:gap-3">
+                  <button onClick={downloadTeacherAudio} disabled={isExportingVoice || status === AppStatus.GENERATING} title="Tải giọng cô về máy" className="w-11 h-11 md:w-12 md:h-12 rounded-2xl bg-orange-50 text-orange-500 flex items-center justify-center hover:bg-orange-100 transition-all disabled:opacity-30">
+                    {isExportingVoice ? <div className="w-5 h-5 border-[3px] border-orange-500 border-t-transparent animate-spin rounded-full"></div> : <Download size={20} />}
+                  </button>
+                  <button onClick={() => setShowVoicePanel(v => !v)} title="Giọng đọc" className={`w-11 h-11 md:w-12 md:h-12 rounded-2xl flex items-center justify-center transition-all ${showVoicePanel ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-500 hover:bg-orange-100'}`}>
+                    <Volume2 size={20} />
+                  </button>
+                  <button onClick={() => readScriptFrom((spokenSentence ?? 0) - 1)} disabled={!spokenSentence} title="Câu trước" className="w-11 h-11 md:w-12 md:h-12 rounded-2xl bg-orange-50 text-orange-500 flex items-center justify-center hover:bg-orange-100 transition-all disabled:opacity-30">
+                    <SkipBack size={20} />
+                  </button>
+                  <button onClick={toggleScriptVoice} className={`w-14 h-14 md:w-16 md:h-16 rounded-[2rem] flex items-center justify-center transition-all shadow-xl ${audioState === 'playing' ? 'bg-red-500 animate-pulse' : 'bg-orange-500 hover:scale-105'}`}>
+                    {isAudioLoading ? <div className="w-6 h-6 border-4 border-white border-t-transparent animate-spin rounded-full"></div> : audioState === 'playing' ? <Pause className="text-white" size={24} /> : <Play className="text-white ml-1" size={24} />}
+                  </button>
+                  <button onClick={() => readScriptFrom(spokenSentence === null ? 0 : spokenSentence + 1)} disabled={spokenSentence !== null && spokenSentence >= scriptSentences.length - 1} title="Câu tiếp theo" className="w-11 h-11 md:w-12 md:h-12 rounded-2xl bg-orange-50 text-orange-500 flex items-center justify-center hover:bg-orange-100 transition-all disabled:opacity-30">
+                    <SkipForward size={20} />
+                  </button>
+                </div>
               </div>
+              {showVoicePanel && (
+                <TeacherVoicePanel
+                  childName={childName}
+                  level={presentation.level}
+                  settings={voiceSettings}
+                  onChange={updateVoiceSettings}
+                  onPreview={() => toggleTeacherVoice(`Hello ${childName.trim() || 'there'}! Let's read together.`)}
+                />
+              )}
               <div className="bg-orange-50/40 p-6 md:p-10 rounded-[2rem] md:rounded-[3rem] border-4 border-dashed border-orange-100">
-                <p className="text-xl md:text-3xl font-black leading-[1.8] text-slate-800 text-justify tracking-tight">
-                  <span className="text-blue-600 italic underline decoration-blue-200 decoration-4">{presentation.intro}</span>{' '}
-                  <span className="text-slate-800">{presentation.points.join(' ')}</span>{' '}
-                  <span className="text-pink-600 italic underline decoration-pink-200 decoration-4">{presentation.conclusion}</span>
-                </p>
+                <KaraokeScript sentences={scriptSentences} activeSentence={spokenSentence} activeWord={spokenWord} onSelect={readScriptFrom} />
               </div>
             </div>
 
             <div className="space-y-10">
+              {compliance && <ComplianceCard report={compliance} />}
+
               <div className="bg-white rounded-[2.5rem] md:rounded-[3.5rem] p-6 md:p-10 shadow-xl border-4 border-slate-50 space-y-6">
                 <h5 className="font-black uppercase text-xs text-slate-400 tracking-[0.3em] flex items-center gap-3 italic"><Star className="text-orange-400 fill-orange-400" size={18} /> Vocabulary Booster</h5>
                 <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3 md:gap-4">
+                  {presentation.lessonVocab.length === 0 && status === AppStatus.GENERATING && (
+                    <p className="col-span-full text-sm font-bold text-slate-300 italic animate-pulse">Từ vựng sẽ xuất hiện khi AI soạn xong bài...</p>
+                  )}
                   {presentation.lessonVocab.map((v, i) => (
                     <div key={i} className="flex flex-col items-center gap-2 p-3 md:p-4 bg-slate-50 rounded-[2rem] md:rounded-[2.5rem] hover:bg-white hover:shadow-lg transition-all cursor-pointer border-2 border-transparent hover:border-orange-100" onClick={() => toggleTeacherVoice(v.word)}>
                       <span className="text-3xl md:text-4xl mb-1">{v.icon}</span>
@@ -729,17 +1212,38 @@ const App: React.FC = () => {
             </div>
 
             <div className="fixed bottom-6 md:bottom-10 left-1/2 -translate-x-1/2 z-[100] w-full max-w-lg px-4 md:px-6">
+              {status === AppStatus.GENERATING && (
+                <div className="bg-white/95 backdrop-blur-md px-6 py-4 rounded-full shadow-2xl border-4 border-orange-100 flex items-center justify-between gap-4 animate-in zoom-in">
+                  <p className="text-sm md:text-base font-black text-orange-500 uppercase italic animate-pulse">🖌️ AI đang viết tiếp bài cho bé...</p>
+                  <button
+                    onClick={() => {
+                      cancelRequest();
+                      stopTeacherAudio();
+                      setStatus(AppStatus.IDLE);
+                      setAppError(null);
+                    }}
+                    className="px-5 py-2 bg-slate-200 text-slate-600 rounded-full font-black text-xs uppercase hover:bg-slate-300 transition-all flex items-center gap-1"
+                  >
+                    <X size={14} /> Huỷ
+                  </button>
+                </div>
+              )}
               {status === AppStatus.READY && (
-                <button onClick={startRecording} className="w-full py-5 md:py-6 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-black text-xl md:text-2xl shadow-[0_15px_40px_rgba(239,68,68,0.3)] flex items-center justify-center gap-3 md:gap-4 hover:translate-y-[-4px] active:scale-95 border-4 border-white transition-all uppercase italic tracking-tighter">
-                  <Mic size={28} className="animate-pulse" /> Nhấn để ghi âm!
-                </button>
+                <div className="space-y-3">
+                  <button onClick={startRecording} className="w-full py-5 md:py-6 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-full font-black text-xl md:text-2xl shadow-[0_15px_40px_rgba(239,68,68,0.3)] flex items-center justify-center gap-3 md:gap-4 hover:translate-y-[-4px] active:scale-95 border-4 border-white transition-all uppercase italic tracking-tighter">
+                    <Mic size={28} className="animate-pulse" /> Nhấn để ghi âm!
+                  </button>
+                  <button onClick={startShadowing} className="w-full py-3 bg-white/95 backdrop-blur-md text-pink-600 rounded-full font-black text-sm md:text-base shadow-xl border-4 border-pink-100 flex items-center justify-center gap-2 hover:bg-pink-50 transition-all uppercase italic">
+                    <Headphones size={18} /> Nói theo cô từng câu
+                  </button>
+                </div>
               )}
               {status === AppStatus.RECORDING && (
                 <div className="bg-white/95 backdrop-blur-md px-6 md:px-10 py-4 md:py-5 rounded-[2rem] shadow-2xl border-4 border-red-100 flex flex-col gap-3 animate-in zoom-in">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3 md:gap-4">
                       <div className="w-5 md:w-6 h-5 md:h-6 bg-red-600 rounded-full animate-ping"></div>
-                      <p className="text-base md:text-lg font-black text-red-600 uppercase italic tracking-tighter">Ghi âm... {formatTime(recordingTime)}</p>
+                      <p className="text-base md:text-lg font-black text-red-600 uppercase italic tracking-tighter">{heardSpeech ? `Ghi âm... ${formatTime(recordingTime)}` : 'Sẵn sàng nghe bé...'}</p>
                     </div>
                     <button onClick={stopRecording} className="bg-red-600 text-white px-6 md:px-8 py-2.5 md:py-3 rounded-full font-black text-base md:text-lg hover:bg-red-700 active:scale-95 shadow-lg border-2 border-red-400">Xong ✅</button>
                   </div>
@@ -753,30 +1257,75 @@ const App: React.FC = () => {
                       }}
                     />
                   </div>
-                  <p className="text-[10px] font-bold text-center" style={{ color: audioLevel > 20 ? '#22c55e' : '#ef4444' }}>
-                    {audioLevel > 20 ? '🎤 Mic đang hoạt động' : '⚠️ Không nhận được giọng nói - kiểm tra micro!'}
-                  </p>
+                  {loudnessWarning ? (
+                    <p className="text-[10px] font-bold text-center" style={{ color: LOUDNESS_MESSAGES[loudnessWarning].color }}>{LOUDNESS_MESSAGES[loudnessWarning].text}</p>
+                  ) : heardSpeech ? (
+                    <p className="text-[10px] font-bold text-center text-emerald-500">
+                      🎤 Cô đang nghe bé nói{getAutoStopSeconds() > 0 && ` - bé im lặng ${getAutoStopSeconds()} giây là tự dừng`}
+                    </p>
+                  ) : (
+                    <p className="text-[10px] font-bold text-center" style={{ color: audioLevel > 20 ? '#22c55e' : '#94a3b8' }}>
+                      👂 Cô đang chờ bé nói...
+                    </p>
+                  )}
                 </div>
               )}
+              {status === AppStatus.REVIEWING && originalRecording && originalRecording.size > 0 && (
+                <div className="mb-3">
+                  <WaveformEditor original={originalRecording} onChange={applyRecordingEdit} />
+                </div>
+              )}
+              {status === AppStatus.REVIEWING && recordingSilent && (
+                <p className="mb-3 bg-amber-50 text-amber-600 px-5 py-3 rounded-2xl border-2 border-amber-100 text-sm font-black text-center shadow-xl">🔇 Cô chưa nghe thấy bé nói gì. Bé ghi âm lại và nói to hơn nhé!</p>
+              )}
               {status === AppStatus.REVIEWING && (
                 <div className="bg-white p-3 md:p-4 rounded-[2rem] md:rounded-[2.5rem] shadow-2xl border-4 border-blue-100 grid grid-cols-4 gap-2 animate-in slide-in-from-bottom-6">
                   <button onClick={playRecordedAudio} className={`py-3 md:py-4 rounded-xl md:rounded-2xl flex flex-col items-center justify-center gap-1 font-black text-[8px] md:text-[9px] uppercase ${isPlayingRecorded ? 'bg-blue-100 text-blue-600' : 'bg-slate-100 hover:bg-slate-200'}`}>{isPlayingRecorded ? <Pause size={16} /> : <Play size={16} />} {isPlayingRecorded ? 'Dừng' : 'Nghe'}</button>
                   <button onClick={downloadAudio} className="py-3 md:py-4 bg-slate-100 rounded-xl md:rounded-2xl flex flex-col items-center justify-center gap-1 font-black text-[8px] md:text-[9px] uppercase hover:bg-slate-200 text-blue-600"><Download size={16} /> Tải về</button>
                   <button onClick={startRecording} className="py-3 md:py-4 bg-pink-50 text-pink-600 rounded-xl md:rounded-2xl flex flex-col items-center justify-center gap-1 font-black text-[8px] md:text-[9px] uppercase hover:bg-pink-100"><RotateCcw size={16} /> Thử lại</button>
-                  <button onClick={handleEvaluate} className="py-3 md:py-4 bg-orange-500 text-white rounded-xl md:rounded-2xl flex flex-col items-center justify-center gap-1 font-black text-[8px] md:text-[9px] uppercase shadow-xl hover:scale-105"><CheckCircle2 size={16} /> Chấm</button>
+                  <button onClick={handleEvaluate} disabled={recordingSilent} className="py-3 md:py-4 bg-orange-500 text-white rounded-xl md:rounded-2xl flex flex-col items-center justify-center gap-1 font-black text-[8px] md:text-[9px] uppercase shadow-xl hover:scale-105 disabled:opacity-40 disabled:hover:scale-100"><CheckCircle2 size={16} /> Chấm</button>
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {status === AppStatus.SHADOWING && presentation && (
+          <ShadowingPanel
+            sentences={scriptSentences}
+            level={presentation.level}
+            spokenWord={spokenWord}
+            playSentence={index => playSentences(scriptSentences, index, undefined, index + 1)}
+            stopTeacher={stopTeacherAudio}
+            onKeyError={openKeySetup}
+            onFinish={finishShadowing}
+            onExit={() => {
+              stopTeacherAudio();
+              setStatus(AppStatus.READY);
+            }}
+          />
+        )}
+
         {status === AppStatus.EVALUATING && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] gap-8">
             <div className="w-20 h-20 border-[8px] border-orange-500 border-t-transparent rounded-full animate-spin"></div>
-            <h3 className="text-xl md:text-2xl font-black text-slate-800 uppercase italic animate-pulse text-center">Ms Ly AI đang nghe lại bài nói của bé... <br /> Chờ tí nhé!</h3>
-            <p className="text-sm text-slate-400 font-bold">Quá trình này có thể mất 30-60 giây</p>
+            {uploadProgress !== null && uploadProgress < 1 ? (
+              <div className="w-full max-w-sm space-y-3 text-center">
+                <h3 className="text-xl md:text-2xl font-black text-slate-800 uppercase italic">Đang gửi bài nói của bé... {Math.round(uploadProgress * 100)}%</h3>
+                <div className="h-4 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-orange-500 to-yellow-500 rounded-full transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
+                <p className="text-sm text-slate-400 font-bold">Bài nói dài nên cần gửi lên trước khi chấm</p>
+              </div>
+            ) : (
+              <>
+                <h3 className="text-xl md:text-2xl font-black text-slate-800 uppercase italic animate-pulse text-center">Ms Ly AI đang nghe lại bài nói của bé... <br /> Chờ tí nhé!</h3>
+                <p className="text-sm text-slate-400 font-bold">{uploadProgress === null ? 'Quá trình này có thể mất 30-60 giây' : 'Bài nói dài nên có thể mất vài phút'}</p>
+              </>
+            )}
             <button
               onClick={() => {
+                cancelRequest();
                 setStatus(AppStatus.REVIEWING);
                 setAppError(null);
               }}
@@ -815,6 +1364,20 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {presentation && result.transcript && (
+                <ScriptDiff script={presentation.script} transcript={result.transcript} taskFulfillment={result.taskFulfillment} />
+              )}
+
+              {recordedBlob && presentation && (
+                <ComparisonPlayer
+                  sentences={scriptSentences}
+                  recordedBlob={recordedBlob}
+                  transcript={result.transcript || ''}
+                  mistakes={result.mistakes || []}
+                  loadTeacherVoice={text => loadTeacherVoice(text)}
+                />
+              )}
+
               <div className="grid grid-cols-3 md:grid-cols-5 gap-3 md:gap-4 p-6 md:p-8 bg-slate-50 mt-8 md:mt-12">
                 {[
                   { label: 'Phát âm', score: result.pronunciation, color: 'text-blue-500' },
@@ -829,11 +1392,20 @@ const App: React.FC = () => {
                   </div>
                 ))}
               </div>
+
+              {result.acousticMetrics && (
+                <FluencyMetricsPanel metrics={result.acousticMetrics} level={presentation?.level ?? level} />
+              )}
+
               <div className="p-8 md:p-16 flex flex-wrap justify-center gap-4 md:gap-8">
-                <button onClick={playRecordedAudio} className="px-6 md:px-12 py-4 md:py-6 bg-slate-100 text-slate-600 rounded-full font-black text-lg md:text-2xl shadow-xl hover:bg-slate-200 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Play size={24} /> Nghe lại</button>
-                <button onClick={downloadAudio} className="px-6 md:px-12 py-4 md:py-6 bg-slate-100 text-blue-600 rounded-full font-black text-lg md:text-2xl shadow-xl hover:bg-blue-50 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Download size={24} /> Tải giọng bé</button>
+                {recordedBlob && (
+                  <>
+                    <button onClick={playRecordedAudio} className="px-6 md:px-12 py-4 md:py-6 bg-slate-100 text-slate-600 rounded-full font-black text-lg md:text-2xl shadow-xl hover:bg-slate-200 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Play size={24} /> Nghe lại</button>
+                    <button onClick={downloadAudio} className="px-6 md:px-12 py-4 md:py-6 bg-slate-100 text-blue-600 rounded-full font-black text-lg md:text-2xl shadow-xl hover:bg-blue-50 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Download size={24} /> Tải giọng bé</button>
+                  </>
+                )}
                 <button onClick={() => setShowCertificate(true)} className="px-6 md:px-12 py-4 md:py-6 bg-blue-600 text-white rounded-full font-black text-lg md:text-2xl shadow-2xl hover:scale-105 transition-all uppercase italic flex items-center gap-3 md:gap-4 border-b-8 border-blue-800"><Award size={24} /> Xem Giấy Khen</button>
-                <button onClick={() => window.location.reload()} className="px-6 md:px-12 py-4 md:py-6 bg-slate-800 text-white rounded-full font-black text-lg md:text-2xl shadow-2xl hover:scale-105 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Home size={24} /> Bài học mới</button>
+                <button onClick={startNewLesson} className="px-6 md:px-12 py-4 md:py-6 bg-slate-800 text-white rounded-full font-black text-lg md:text-2xl shadow-2xl hover:scale-105 transition-all uppercase italic flex items-center gap-3 md:gap-4"><Home size={24} /> Bài học mới</button>
               </div>
             </div>
           </div>
@@ -900,10 +1472,27 @@ const App: React.FC = () => {
       {/* Settings Modal */}
       <SettingsModal
         isOpen={showSettings}
-        onClose={() => apiKey ? setShowSettings(false) : null}
+        onClose={() => needsApiKey ? null : setShowSettings(false)}
         onSave={handleSaveSettings}
-        currentApiKey={apiKey}
-        currentModel={selectedModel}
+        currentApiKeys={apiKeys}
+        currentModelChains={modelChains}
+        currentProvider={providerId}
+        isKeyLocked={vaultLocked}
+      />
+
+      <MicSetupModal
+        isOpen={showMicSetup}
+        onClose={() => setShowMicSetup(false)}
+        error={micSetupError}
+      />
+
+      <UnlockKeyModal
+        isOpen={showUnlock && vaultLocked}
+        onClose={() => setShowUnlock(false)}
+        onUnlocked={() => {
+          setShowUnlock(false);
+          if (appError?.kind === 'key-locked') leaveErrorScreen();
+        }}
       />
 
       <style>{`
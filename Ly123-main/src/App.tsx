@@ -16,6 +16,7 @@ import {
 import { motion, AnimatePresence } from 'motion/react';
 import html2canvas from 'html2canvas';
 import { generateContent, generateImage, EnglishLevel } from './services/geminiService';
+import { CEFR_LEVELS } from '../../constants';
 
 type AspectRatio = "1:1" | "3:4" | "4:3" | "9:16" | "16:9";
 
@@ -166,7 +167,7 @@ export default function App() {
                   Trình độ Tiếng Anh
                 </label>
                 <div className="grid grid-cols-3 gap-2">
-                  {(["Starter", "A1", "A2", "B1", "B2"] as EnglishLevel[]).map((lvl) => (
+                  {CEFR_LEVELS.map((lvl) => (
                     <button
                       key={lvl}
                       onClick={() => setLevel(lvl)}
@@ -1,4 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
+import { CEFRLevel } from "../../../types";
+import { CURRICULUM, describeLevelInEnglish } from "../../../curriculum";
 
 const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
 
@@ -8,7 +10,8 @@ export interface ImageGenerationResult {
   readingText: string;
 }
 
-export type EnglishLevel = "Starter" | "A1" | "A2" | "B1" | "B2";
+// Levels come from the SpeakPro curriculum so posters and speaking lessons stay in step
+export type EnglishLevel = CEFRLevel;
 
 export const generateContent = async (
   input: string,
@@ -23,11 +26,7 @@ export const generateContent = async (
   2. A reading passage in English appropriate for the level: ${level}.
   
   Level Guidelines:
-  - Starter: Very simple sentences (3-5 words), basic vocabulary (colors, animals, family), present simple only.
-  - A1: Simple sentences, basic descriptions, daily activities, present simple and present continuous.
-  - A2: Short paragraphs, connecting sentences with 'and', 'but', 'because', past simple, future with 'going to'.
-  - B1: More complex descriptions, expressing opinions, using perfect tenses, relative clauses.
-  - B2: Detailed descriptions, abstract topics, varied vocabulary, complex sentence structures.
+${CURRICULUM.map(l => `  - ${describeLevelInEnglish(l.id)}`).join("\n")}
   
   The reading passage should follow the structure of the examples provided:
   - Greeting (e.g., Hello everyone)
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive, Trash2 } from 'lucide-react';
+import {
+  AudioCacheSummary,
+  DEFAULT_AUDIO_CACHE_LIMIT_MB,
+  summarizeAudioCache,
+  clearAudioCache,
+  evictAudioCache,
+  getAudioCacheLimitMb,
+  setAudioCacheLimitMb
+} from '../services/teacherAudioCache';
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const AudioCachePanel: React.FC = () => {
+  const [summary, setSummary] = useState<AudioCacheSummary | null>(null);
+  const [limit, setLimit] = useState(getAudioCacheLimitMb().toString());
+
+  const refresh = () => {
+    summarizeAudioCache().then(setSummary).catch(() => setSummary(null));
+  };
+
+  useEffect(refresh, []);
+
+  const handleLimit = (value: string) => {
+    setLimit(value);
+    const parsed = parseFloat(value);
+    setAudioCacheLimitMb(parsed > 0 ? parsed : null);
+  };
+
+  // Shrinking the limit takes effect once the field is left, not on every keystroke
+  const applyLimit = () => {
+    evictAudioCache().then(refresh).catch(() => { });
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Xoá toàn bộ giọng cô giáo đã lưu trên máy?')) return;
+    await clearAudioCache();
+    refresh();
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <HardDrive size={14} /> Giọng cô đã lưu {summary && <span className="text-orange-500">({summary.entries} câu, {formatMb(summary.bytes)})</span>}
+      </label>
+      <div className="flex items-center gap-3">
+        <label className="flex-1 flex items-center gap-2 p-3 bg-slate-50 rounded-2xl border-2 border-slate-100 focus-within:border-orange-400 transition-all">
+          <span className="text-xs font-black text-slate-500 whitespace-nowrap">Dung lượng tối đa (MB)</span>
+          <input
+            type="number"
+            min="1"
+            step="10"
+            value={limit}
+            onChange={e => handleLimit(e.target.value)}
+            onBlur={applyLimit}
+            placeholder={String(DEFAULT_AUDIO_CACHE_LIMIT_MB)}
+            className="w-full bg-transparent outline-none font-bold text-sm text-slate-700"
+          />
+        </label>
+        <button onClick={handleClear} className="px-4 py-3 bg-red-50 rounded-2xl font-black text-xs text-red-500 hover:bg-red-100 flex items-center gap-1"><Trash2 size={14} /> Xoá</button>
+      </div>
+      <p className="text-xs text-slate-400 font-medium">
+        Giọng đọc được lưu lại để mở lại bài cũ không tốn lượt AI. Khi đầy, những câu lâu không nghe sẽ bị xoá trước.
+      </p>
+    </div>
+  );
+};
+
+export default AudioCachePanel;
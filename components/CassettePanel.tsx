@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Disc, Download, Upload, Trash2 } from 'lucide-react';
+import {
+  CassetteMode,
+  getCassetteMode,
+  setCassetteMode,
+  countCassetteEntries,
+  clearCassette,
+  exportCassette,
+  importCassette
+} from '../services/cassette';
+
+const MODES: { id: CassetteMode; label: string; desc: string }[] = [
+  { id: 'off', label: 'Tắt', desc: 'Gọi AI bình thường' },
+  { id: 'record', label: 'Ghi', desc: 'Lưu mọi câu trả lời của AI' },
+  { id: 'replay', label: 'Phát lại', desc: 'Dùng câu trả lời đã lưu, không cần mạng' },
+];
+
+const CassettePanel: React.FC = () => {
+  const [mode, setMode] = useState<CassetteMode>(getCassetteMode());
+  const [entryCount, setEntryCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    countCassetteEntries().then(setEntryCount).catch(() => setEntryCount(null));
+  };
+
+  useEffect(refreshCount, []);
+
+  const handleMode = (next: CassetteMode) => {
+    setCassetteMode(next);
+    setMode(next);
+  };
+
+  const handleExport = async () => {
+    const blob = await exportCassette();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `speakpro_cassette_${new Date().getTime()}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = await importCassette(file);
+      alert(`Đã nhập ${added} bản ghi.`);
+    } catch (err: any) {
+      alert(err?.message || 'Không đọc được file cassette.');
+    }
+    refreshCount();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Xoá toàn bộ bản ghi cassette?')) return;
+    await clearCassette();
+    refreshCount();
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <Disc size={14} /> Cassette gỡ lỗi {entryCount !== null && <span className="text-orange-500">({entryCount} bản ghi)</span>}
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => handleMode(m.id)}
+            title={m.desc}
+            className={`py-3 rounded-2xl border-2 font-black text-sm transition-all ${
+              mode === m.id ? 'border-orange-400 bg-orange-50 text-orange-600' : 'border-slate-100 text-slate-500 hover:border-orange-200'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400 font-medium">{MODES.find(m => m.id === mode)?.desc}</p>
+      <div className="flex gap-2">
+        <button onClick={handleExport} className="flex-1 py-2 bg-slate-100 rounded-xl font-black text-xs text-blue-600 hover:bg-slate-200 flex items-center justify-center gap-1"><Download size={14} /> Xuất file</button>
+        <button onClick={() => fileInputRef.current?.click()} className="flex-1 py-2 bg-slate-100 rounded-xl font-black text-xs text-emerald-600 hover:bg-slate-200 flex items-center justify-center gap-1"><Upload size={14} /> Nhập file</button>
+        <button onClick={handleClear} className="flex-1 py-2 bg-red-50 rounded-xl font-black text-xs text-red-500 hover:bg-red-100 flex items-center justify-center gap-1"><Trash2 size={14} /> Xoá</button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json" onChange={handleImport} className="hidden" />
+    </div>
+  );
+};
+
+export default CassettePanel;
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Headphones, Loader2, Square, User, GraduationCap, Repeat, Activity } from 'lucide-react';
+import { ScriptSentence, SpeakingMistake } from '../types';
+import { splitWords } from '../services/scriptParser';
+import { decodeRecording } from '../services/audioUtils';
+import IntonationContour from './IntonationContour';
+import { TimeRange, alignSentences, detectSpeechSegments, isMistakeWord, mistakesInSentence } from '../services/speechAlignment';
+
+interface ComparisonPlayerProps {
+  sentences: ScriptSentence[];
+  recordedBlob: Blob;
+  transcript: string;
+  mistakes: SpeakingMistake[];
+  // Teacher voice for a sentence, from the app's audio cache
+  loadTeacherVoice: (text: string) => Promise<AudioBuffer>;
+}
+
+type Playing = { index: number; who: 'teacher' | 'child' } | null;
+
+/** Teacher sentence, then the child's own take of it, back to back. */
+const ComparisonPlayer: React.FC<ComparisonPlayerProps> = ({ sentences, recordedBlob, transcript, mistakes, loadTeacherVoice }) => {
+  const [recording, setRecording] = useState<AudioBuffer | null>(null);
+  const [ranges, setRanges] = useState<(TimeRange | null)[] | null>(null);
+  const [playing, setPlaying] = useState<Playing>(null);
+  const [mistakesOnly, setMistakesOnly] = useState(false);
+  // Sentence whose intonation contours are shown
+  const [contourIndex, setContourIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const ctxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped on every stop, so a sequence in progress knows to give up
+  const playIdRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRanges(null);
+    setError(null);
+    decodeRecording(recordedBlob)
+      .then(buffer => {
+        if (cancelled) return;
+        setRecording(buffer);
+        setRanges(alignSentences(sentences.map(s => s.text), detectSpeechSegments(buffer), transcript));
+      })
+      .catch(err => {
+        console.warn('[SpeakPro] Could not decode recording for comparison:', err);
+        if (!cancelled) setError('Không đọc được bản ghi âm của bé để so sánh.');
+      });
+    return () => { cancelled = true; };
+  }, [recordedBlob, sentences, transcript]);
+
+  useEffect(() => () => {
+    playIdRef.current++;
+    sourceRef.current?.stop();
+    ctxRef.current?.close().catch(() => { });
+  }, []);
+
+  const stop = () => {
+    playIdRef.current++;
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    source?.stop();
+    setPlaying(null);
+  };
+
+  // Resolves true when the audio played to the end, false if it was stopped
+  const playBuffer = (buffer: AudioBuffer, range?: TimeRange): Promise<boolean> => {
+    if (!ctxRef.current) ctxRef.current = new AudioContext();
+    const source = ctxRef.current.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctxRef.current.destination);
+    if (range) source.start(0, range.start, range.end - range.start);
+    else source.start(0);
+    sourceRef.current = source;
+    return new Promise(resolve => {
+      source.onended = () => resolve(sourceRef.current === source);
+    });
+  };
+
+  const playSequence = async (steps: { index: number; who: 'teacher' | 'child' }[]) => {
+    stop();
+    const playId = playIdRef.current;
+    try {
+      for (const step of steps) {
+        const range = ranges?.[step.index];
+        if (step.who === 'child' && (!recording || !range)) continue;
+        setPlaying(step);
+        const buffer = step.who === 'teacher' ? await loadTeacherVoice(sentences[step.index].text) : recording!;
+        if (playIdRef.current !== playId) return;
+        const finished = await playBuffer(buffer, step.who === 'child' ? range! : undefined);
+        if (!finished || playIdRef.current !== playId) return;
+      }
+    } catch (err) {
+      console.warn('[SpeakPro] Comparison playback failed:', err);
+    }
+    if (playIdRef.current === playId) setPlaying(null);
+  };
+
+  const pair = (index: number) => [{ index, who: 'teacher' as const }, { index, who: 'child' as const }];
+  const sentenceMistakes = sentences.map(s => mistakesInSentence(s.text, mistakes));
+  const shown = sentences.map((_, i) => i).filter(i => !mistakesOnly || sentenceMistakes[i].length > 0);
+
+  return (
+    <div className="mx-6 md:mx-12 mt-8 md:mt-12 bg-blue-50/60 p-6 md:p-10 rounded-[2rem] md:rounded-[3rem] border-4 border-dashed border-blue-100 text-left space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h5 className="text-xl md:text-2xl font-black text-blue-600 flex items-center gap-3 uppercase italic"><Headphones /> Nghe cô rồi nghe bé</h5>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs font-black text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={mistakesOnly} onChange={e => setMistakesOnly(e.target.checked)} className="w-4 h-4 accent-red-500" />
+            Chỉ câu có lỗi
+          </label>
+          {playing ? (
+            <button onClick={stop} className="px-4 py-2 bg-slate-800 text-white rounded-xl font-black text-xs flex items-center gap-1"><Square size={14} /> Dừng</button>
+          ) : (
+            <button onClick={() => playSequence(shown.flatMap(pair))} disabled={!ranges || shown.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded-xl font-black text-xs flex items-center gap-1 disabled:opacity-40"><Repeat size={14} /> Phát tất cả</button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+      {!ranges && !error && <p className="text-sm font-bold text-slate-400 flex items-center gap-2"><Loader2 size={16} className="animate-spin" /> Đang tìm từng câu trong bài nói của bé...</p>}
+
+      {ranges && (
+        <div className="grid gap-3">
+          {shown.map(index => {
+            const hasMistake = sentenceMistakes[index].length > 0;
+            const range = ranges[index];
+            const active = playing?.index === index;
+            return (
+              <div key={index} className={`bg-white p-4 md:p-5 rounded-2xl md:rounded-3xl shadow-sm border-l-8 space-y-3 ${hasMistake ? 'border-red-400' : 'border-emerald-400'} ${active ? 'ring-4 ring-blue-200' : ''}`}>
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <p className="flex-1 text-base md:text-lg font-bold text-slate-700 leading-snug">
+                    {splitWords(sentences[index].text).map((word, w) => (
+                      <React.Fragment key={w}>
+                        <span className={isMistakeWord(word, sentenceMistakes[index]) ? 'text-red-600 underline decoration-red-300 decoration-2' : ''}>{word}</span>{' '}
+                      </React.Fragment>
+                    ))}
+                    {!range && <span className="block text-xs font-black text-slate-400 mt-1">Bé chưa đọc tới câu này</span>}
+                  </p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button onClick={() => playSequence([{ index, who: 'teacher' }])} title="Nghe cô" className={`p-2.5 rounded-xl ${active && playing?.who === 'teacher' ? 'bg-orange-500 text-white' : 'bg-orange-50 text-orange-500 hover:bg-orange-100'}`}><GraduationCap size={18} /></button>
+                    <button onClick={() => playSequence([{ index, who: 'child' }])} disabled={!range} title="Nghe bé" className={`p-2.5 rounded-xl disabled:opacity-30 ${active && playing?.who === 'child' ? 'bg-pink-500 text-white' : 'bg-pink-50 text-pink-500 hover:bg-pink-100'}`}><User size={18} /></button>
+                    <button onClick={() => playSequence(pair(index))} disabled={!range} className="px-3 py-2.5 bg-blue-600 text-white rounded-xl font-black text-xs disabled:opacity-30">Cô → Bé</button>
+                    <button onClick={() => setContourIndex(contourIndex === index ? null : index)} title="Xem ngữ điệu" className={`p-2.5 rounded-xl ${contourIndex === index ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-500 hover:bg-blue-100'}`}><Activity size={18} /></button>
+                  </div>
+                </div>
+                {contourIndex === index && (
+                  <IntonationContour
+                    loadTeacher={() => loadTeacherVoice(sentences[index].text)}
+                    recording={recording}
+                    range={range}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPlayer;
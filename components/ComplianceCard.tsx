@@ -0,0 +1,44 @@
+import React from 'react';
+import { ClipboardCheck, CheckCircle2, AlertCircle, RefreshCw } from 'lucide-react';
+import { ComplianceReport } from '../types';
+
+interface ComplianceCardProps {
+  report: ComplianceReport;
+}
+
+const ComplianceCard: React.FC<ComplianceCardProps> = ({ report }) => {
+  return (
+    <div className={`bg-white rounded-[2.5rem] p-6 md:p-8 shadow-xl border-4 space-y-4 ${report.compliant ? 'border-emerald-50' : 'border-amber-50'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h5 className="font-black uppercase text-xs text-slate-400 tracking-[0.3em] flex items-center gap-3 italic">
+          <ClipboardCheck className={report.compliant ? 'text-emerald-500' : 'text-amber-500'} size={18} /> Chuẩn đầu ra {report.level}
+        </h5>
+        <div className="flex items-center gap-2">
+          {report.revised && (
+            <span className="text-[10px] font-black uppercase px-3 py-1 rounded-full bg-blue-100 text-blue-600 flex items-center gap-1">
+              <RefreshCw size={12} /> AI đã viết lại
+            </span>
+          )}
+          <span className={`text-[10px] font-black uppercase px-3 py-1 rounded-full ${report.compliant ? 'bg-emerald-100 text-emerald-600' : 'bg-amber-100 text-amber-600'}`}>
+            {report.compliant ? 'Đạt chuẩn' : 'Chưa đạt'}
+          </span>
+        </div>
+      </div>
+      <div className="grid md:grid-cols-2 gap-3">
+        {report.checks.map(check => (
+          <div key={check.id} className="flex items-start gap-3 p-4 bg-slate-50 rounded-2xl">
+            {check.ok
+              ? <CheckCircle2 size={18} className="text-emerald-500 flex-shrink-0 mt-0.5" />
+              : <AlertCircle size={18} className="text-amber-500 flex-shrink-0 mt-0.5" />}
+            <div>
+              <p className="text-sm font-black text-slate-700">{check.label}</p>
+              <p className="text-xs font-medium text-slate-400 break-words">{check.detail}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ComplianceCard;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { CEFRLevel, FluencyMetrics } from '../types';
+import { getCurriculumLevel } from '../curriculum';
+import { LONG_PAUSE_SECONDS } from '../services/fluencyMetrics';
+
+interface FluencyMetricsPanelProps {
+  metrics: FluencyMetrics;
+  level: CEFRLevel;
+}
+
+type Tone = 'good' | 'warn';
+
+const TONE_CLASSES: Record<Tone, string> = {
+  good: 'text-emerald-500',
+  warn: 'text-amber-500',
+};
+
+/** What the recording itself shows, next to the examiner's scores. */
+const FluencyMetricsPanel: React.FC<FluencyMetricsPanelProps> = ({ metrics, level }) => {
+  const pace = getCurriculumLevel(level).speakingPace;
+  const range = metrics.pitchRangeSemitones;
+
+  const tiles: { label: string; value: string; note: string; tone: Tone }[] = [
+    {
+      label: 'Tốc độ nói',
+      value: `${metrics.wordsPerMinute} từ/phút`,
+      note: metrics.wordsPerMinute < pace.min ? `Hơi chậm (vừa: ${pace.min}-${pace.max})`
+        : metrics.wordsPerMinute > pace.max ? `Hơi nhanh (vừa: ${pace.min}-${pace.max})`
+        : `Vừa phải (${pace.min}-${pace.max})`,
+      tone: metrics.wordsPerMinute >= pace.min && metrics.wordsPerMinute <= pace.max ? 'good' : 'warn',
+    },
+    {
+      label: 'Thời gian nói',
+      value: `${Math.round(metrics.speechSeconds)} giây`,
+      note: `Đọc cả bài cần khoảng ${Math.round(metrics.expectedSeconds)} giây`,
+      tone: metrics.speechSeconds <= metrics.expectedSeconds * 1.5 ? 'good' : 'warn',
+    },
+    {
+      label: 'Ngắt nghỉ',
+      value: `${metrics.pauseCount} lần`,
+      note: metrics.longPauseCount
+        ? `${metrics.longPauseCount} lần dừng lâu (dài nhất ${metrics.longestPauseSeconds} giây)`
+        : `Không có lần dừng nào quá ${LONG_PAUSE_SECONDS} giây`,
+      tone: metrics.longPauseCount <= 2 ? 'good' : 'warn',
+    },
+    {
+      label: 'Lên xuống giọng',
+      value: range === null ? '—' : `${range} cung`,
+      note: range === null ? 'Chưa đo được'
+        : range < 4 ? 'Giọng còn đều đều'
+        : range < 8 ? 'Tự nhiên'
+        : 'Rất sinh động',
+      tone: range !== null && range >= 4 ? 'good' : 'warn',
+    },
+  ];
+
+  return (
+    <div className="mx-6 md:mx-12 mt-8 md:mt-12 bg-slate-50 p-6 md:p-10 rounded-[2rem] md:rounded-[3rem] border-4 border-dashed border-slate-200 text-left space-y-6">
+      <div>
+        <h5 className="text-xl md:text-2xl font-black text-slate-600 flex items-center gap-3 uppercase italic"><Activity /> Máy đo giọng bé</h5>
+        <p className="text-xs font-bold text-slate-400 mt-1">Đo trực tiếp từ bản ghi âm, lần chấm nào cũng giống nhau.</p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-white p-4 md:p-5 rounded-[1.5rem] md:rounded-[2rem] shadow-sm border-2 border-slate-100">
+            <p className="text-[9px] md:text-[10px] font-black uppercase text-slate-400 mb-1 leading-none">{tile.label}</p>
+            <p className={`text-xl md:text-2xl font-black ${TONE_CLASSES[tile.tone]}`}>{tile.value}</p>
+            <p className="text-[10px] md:text-xs font-bold text-slate-400 mt-1 leading-snug">{tile.note}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FluencyMetricsPanel;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { TimeRange } from '../services/speechAlignment';
+import { PitchMovement, PitchPoint, endingMovement, medianPitch, smoothPitch, toSemitones, trackPitch } from '../services/pitchTracker';
+
+interface IntonationContourProps {
+  // Teacher voice for the sentence
+  loadTeacher: () => Promise<AudioBuffer>;
+  recording: AudioBuffer | null;
+  // Where the child said the sentence, or null if they did not get to it
+  range: TimeRange | null;
+}
+
+interface Contours {
+  teacher: PitchPoint[];
+  child: PitchPoint[] | null;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+// Contours are drawn this many semitones above and below each speaker's middle pitch
+const SPAN_SEMITONES = 10;
+
+const MOVEMENT_LABELS: Record<PitchMovement, string> = {
+  rising: '↗ lên giọng',
+  falling: '↘ xuống giọng',
+  level: '→ giữ giọng',
+};
+
+/**
+ * SVG paths of the contour, one per voiced stretch. Each speaker is drawn
+ * around their own middle pitch and across the full width, so a child's
+ * high voice and a slower reading still line up with the teacher's.
+ */
+function contourPaths(points: PitchPoint[]): string[] {
+  const reference = medianPitch(points);
+  const voiced = points.filter(p => p.hz !== null);
+  if (!reference || voiced.length < 2) return [];
+  const start = voiced[0].time;
+  const length = voiced[voiced.length - 1].time - start || 1;
+
+  const paths: string[] = [];
+  let current: string[] = [];
+  for (const point of points) {
+    if (point.time < start || point.time > start + length) continue;
+    if (point.hz === null) {
+      if (current.length > 1) paths.push(`M${current.join('L')}`);
+      current = [];
+      continue;
+    }
+    const semitones = Math.max(-SPAN_SEMITONES, Math.min(SPAN_SEMITONES, toSemitones(point.hz, reference)));
+    const x = ((point.time - start) / length) * WIDTH;
+    const y = HEIGHT / 2 - (semitones / SPAN_SEMITONES) * (HEIGHT / 2);
+    current.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  }
+  if (current.length > 1) paths.push(`M${current.join('L')}`);
+  return paths;
+}
+
+/** Teacher and child pitch over one sentence, drawn on top of each other. */
+const IntonationContour: React.FC<IntonationContourProps> = ({ loadTeacher, recording, range }) => {
+  const [contours, setContours] = useState<Contours | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTeacher()
+      .then(teacher => {
+        if (cancelled) return;
+        setContours({
+          teacher: smoothPitch(trackPitch(teacher)),
+          child: recording && range ? smoothPitch(trackPitch(recording, range)) : null,
+        });
+      })
+      .catch(err => {
+        console.warn('[SpeakPro] Could not load teacher voice for intonation:', err);
+        if (!cancelled) setError(true);
+      });
+    return () => { cancelled = true; };
+    // The teacher loader changes identity on every render; the sentence is identified by the range
+  }, [recording, range]);
+
+  if (error) return <p className="text-xs font-bold text-red-500">Không tải được giọng cô để so ngữ điệu.</p>;
+  if (!contours) return <p className="text-xs font-bold text-slate-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Đang đo ngữ điệu...</p>;
+
+  const teacherEnding = endingMovement(contours.teacher);
+  const childEnding = contours.child ? endingMovement(contours.child) : null;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-slate-50 rounded-2xl" preserveAspectRatio="none">
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#e2e8f0" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+        {contourPaths(contours.teacher).map((d, i) => (
+          <path key={`t${i}`} d={d} fill="none" stroke="#f97316" strokeWidth={4} strokeLinecap="round" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+        ))}
+        {contours.child && contourPaths(contours.child).map((d, i) => (
+          <path key={`c${i}`} d={d} fill="none" stroke="#ec4899" strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-black">
+        <span className="text-orange-500">━ Cô{teacherEnding && `: cuối câu ${MOVEMENT_LABELS[teacherEnding]}`}</span>
+        {contours.child
+          ? <span className="text-pink-500">━ Bé{childEnding && `: cuối câu ${MOVEMENT_LABELS[childEnding]}`}</span>
+          : <span className="text-slate-400">Bé chưa đọc câu này</span>}
+      </div>
+      {teacherEnding && childEnding && teacherEnding !== childEnding && (
+        <p className="text-xs font-bold text-blue-600">💡 Cuối câu cô {MOVEMENT_LABELS[teacherEnding].slice(2)}, bé thử ghi âm lại và {MOVEMENT_LABELS[teacherEnding].slice(2)} giống cô nhé!</p>
+      )}
+    </div>
+  );
+};
+
+export default IntonationContour;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ScriptSentence } from '../types';
+import { splitWords } from '../services/scriptParser';
+
+interface KaraokeScriptProps {
+  sentences: ScriptSentence[];
+  // The sentence the teacher is reading (or paused on), and the word being spoken
+  activeSentence: number | null;
+  activeWord: number | null;
+  onSelect: (index: number) => void;
+}
+
+const PART_STYLES: Record<ScriptSentence['part'], string> = {
+  intro: 'text-blue-600 italic underline decoration-blue-200 decoration-4',
+  point: 'text-slate-800',
+  conclusion: 'text-pink-600 italic underline decoration-pink-200 decoration-4',
+};
+
+/** The script with the spoken sentence and word lit up; tapping a sentence reads it again. */
+const KaraokeScript: React.FC<KaraokeScriptProps> = ({ sentences, activeSentence, activeWord, onSelect }) => {
+  return (
+    <p className="text-xl md:text-3xl font-black leading-[1.8] text-slate-800 text-justify tracking-tight">
+      {sentences.map((sentence, index) => {
+        const active = index === activeSentence;
+        return (
+          <React.Fragment key={index}>
+            <span
+              onClick={() => onSelect(index)}
+              title="Nhấn để nghe lại câu này"
+              className={`cursor-pointer rounded-xl transition-colors ${PART_STYLES[sentence.part]} ${active ? 'bg-yellow-100' : 'hover:bg-orange-100/60'}`}
+            >
+              {active
+                ? splitWords(sentence.text).map((word, w) => (
+                    <React.Fragment key={w}>
+                      <span className={`rounded-lg transition-colors ${w === activeWord ? 'bg-orange-400 text-white' : ''}`}>{word}</span>
+                      {' '}
+                    </React.Fragment>
+                  ))
+                : sentence.text}
+            </span>{' '}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
+
+export default KaraokeScript;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, ShieldCheck } from 'lucide-react';
+import { AUTO_LOCK_MINUTES, disableVault, enableVault, isVaultEnabled, lockVault } from '../services/keyVault';
+
+// The app re-renders through its vault subscription after every change here
+interface KeyVaultPanelProps {
+  // Keys currently entered in the settings form
+  keys: string[];
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const KeyVaultPanel: React.FC<KeyVaultPanelProps> = ({ keys }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const enabled = isVaultEnabled();
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Mật khẩu cần ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('Hai mật khẩu chưa giống nhau.');
+      return;
+    }
+    setError(null);
+    await enableVault(passphrase, keys.map(k => k.trim()).filter(Boolean));
+    setPassphrase('');
+    setConfirmation('');
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Lưu key dạng không mã hoá trên máy này?')) return;
+    disableVault();
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <ShieldCheck size={14} /> Bảo vệ key bằng mật khẩu
+      </label>
+      {enabled ? (
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-xs font-bold text-emerald-600">Key đang được mã hoá. Tự khoá sau {AUTO_LOCK_MINUTES} phút không dùng.</p>
+          <button onClick={lockVault} className="px-4 py-2 bg-slate-100 rounded-xl font-black text-xs text-slate-600 hover:bg-slate-200 flex items-center gap-1"><Lock size={14} /> Khoá ngay</button>
+          <button onClick={handleDisable} className="px-4 py-2 bg-red-50 rounded-xl font-black text-xs text-red-500 hover:bg-red-100 flex items-center gap-1"><Unlock size={14} /> Tắt</button>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400 font-medium -mt-1">
+            Dùng trên máy tính bảng chung: key được mã hoá, chỉ thầy cô biết mật khẩu mới mở được.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              placeholder="Mật khẩu"
+              className="p-3 bg-slate-50 border-2 border-slate-100 rounded-2xl outline-none font-bold text-sm focus:border-orange-400 transition-all"
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              placeholder="Nhập lại mật khẩu"
+              className="p-3 bg-slate-50 border-2 border-slate-100 rounded-2xl outline-none font-bold text-sm focus:border-orange-400 transition-all"
+            />
+          </div>
+          <button
+            onClick={handleEnable}
+            disabled={!passphrase || keys.every(k => !k.trim())}
+            className="w-full py-3 bg-slate-800 text-white rounded-2xl font-black text-sm hover:bg-slate-700 transition-all disabled:opacity-40 flex items-center justify-center gap-2"
+          >
+            <Lock size={16} /> Mã hoá key
+          </button>
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KeyVaultPanel;
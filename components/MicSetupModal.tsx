@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Mic, Loader2, RefreshCw } from 'lucide-react';
+import {
+  MIC_TEST_ADVICE,
+  MIC_TEST_SECONDS,
+  MicTestResult,
+  describeMicError,
+  getPreferredMicId,
+  listMicrophones,
+  openMicrophone,
+  runMicTest,
+  setPreferredMicId
+} from '../services/micDevices';
+
+interface MicSetupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Why the last recording could not start, shown until the next test
+  error?: string | null;
+}
+
+const MicSetupModal: React.FC<MicSetupModalProps> = ({ isOpen, onClose, error }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [result, setResult] = useState<MicTestResult | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+  const testRef = useRef<AbortController | null>(null);
+
+  const refreshDevices = () => {
+    listMicrophones().then(setDevices).catch(() => setDevices([]));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDeviceId(getPreferredMicId() || '');
+    setResult(null);
+    setMicError(error || null);
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+      testRef.current?.abort();
+    };
+  }, [isOpen, error]);
+
+  if (!isOpen) return null;
+
+  const handleTest = async () => {
+    const test = new AbortController();
+    testRef.current = test;
+    setIsTesting(true);
+    setResult(null);
+    setMicError(null);
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openMicrophone(deviceId || null);
+      // Names only show up once the mic has been allowed
+      refreshDevices();
+      const outcome = await runMicTest(stream, setLevel, test.signal);
+      if (!test.signal.aborted) setResult(outcome);
+    } catch (err) {
+      console.error('[SpeakPro] Mic test error:', err);
+      setMicError(describeMicError(err));
+    } finally {
+      stream?.getTracks().forEach(t => t.stop());
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    setPreferredMicId(deviceId || null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/80 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md rounded-[3rem] shadow-2xl overflow-hidden border-4 border-orange-50 animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-gradient-to-r from-orange-500 to-yellow-500 p-8 text-white relative">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 bg-white/20 rounded-full hover:bg-white/30 transition-all"
+          >
+            <X size={20} />
+          </button>
+          <div className="flex items-center gap-4">
+            <div className="bg-white/20 p-3 rounded-2xl">
+              <Mic size={28} />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black italic tracking-tighter">Kiểm tra micro</h2>
+              <p className="text-sm opacity-90 font-bold">Chọn micro và thử trước khi bé ghi âm</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 space-y-6">
+          {micError && <p className="p-4 bg-red-50 rounded-2xl border-2 border-red-100 text-sm font-bold text-red-600">{micError}</p>}
+
+          <div className="space-y-3">
+            <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+              <Mic size={14} /> Micro
+              <button onClick={refreshDevices} title="Tải lại danh sách" className="ml-auto text-slate-400 hover:text-orange-500"><RefreshCw size={14} /></button>
+            </label>
+            <select
+              value={deviceId}
+              onChange={e => { setDeviceId(e.target.value); setResult(null); }}
+              disabled={isTesting}
+              className="w-full p-4 bg-slate-50 border-2 border-slate-100 rounded-2xl outline-none font-bold text-sm text-slate-700 focus:border-orange-400 transition-all"
+            >
+              <option value="">Micro mặc định của máy</option>
+              {devices.filter(d => d.deviceId !== 'default').map((d, i) => (
+                <option key={d.deviceId} value={d.deviceId}>{d.label || `Micro ${i + 1}`}</option>
+              ))}
+            </select>
+            {devices.length > 0 && devices.every(d => !d.label) && (
+              <p className="text-xs text-slate-400 font-medium">Bấm "Thử micro" để trình duyệt hiện tên các micro.</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="h-4 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full transition-all duration-75"
+                style={{ width: `${level}%`, background: level > 85 ? '#ef4444' : level > 15 ? '#22c55e' : '#f59e0b' }}
+              />
+            </div>
+            <button
+              onClick={handleTest}
+              disabled={isTesting}
+              className="w-full py-4 bg-blue-50 text-blue-600 rounded-2xl font-black text-sm uppercase hover:bg-blue-100 disabled:opacity-60 flex items-center justify-center gap-2"
+            >
+              {isTesting ? <><Loader2 size={16} className="animate-spin" /> Bé nói "Hello, my name is..." ({MIC_TEST_SECONDS} giây)</> : <><Mic size={16} /> Thử micro</>}
+            </button>
+            {result && (
+              <div className={`p-4 rounded-2xl border-2 text-sm font-bold ${result.verdict === 'ok' ? 'bg-emerald-50 border-emerald-100 text-emerald-600' : 'bg-amber-50 border-amber-100 text-amber-600'}`}>
+                <p>{MIC_TEST_ADVICE[result.verdict]}</p>
+                <p className="mt-1 text-[10px] font-medium opacity-70">
+                  Tiếng ồn nền {Math.round(result.noiseFloor * 1000)} · Giọng nói {Math.round(result.speechLevel * 1000)} · Đỉnh {Math.round(result.peak * 100)}%
+                </p>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={isTesting}
+            className="w-full py-4 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-2xl font-black text-sm uppercase shadow-xl disabled:opacity-50"
+          >
+            Dùng micro này
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MicSetupModal;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Cpu, ChevronUp, ChevronDown, X, Plus } from 'lucide-react';
+import { MODEL_TASKS, ModelChains, ModelInfo, ModelTask, modelName } from '../services/modelCatalog';
+
+interface ModelChainEditorProps {
+  chains: ModelChains;
+  // Models the key may use; the known list until a key has been tested
+  models: ModelInfo[];
+  discovered: boolean;
+  onChange: (chains: ModelChains) => void;
+}
+
+const ModelChainEditor: React.FC<ModelChainEditorProps> = ({ chains, models, discovered, onChange }) => {
+  const updateChain = (task: ModelTask, chain: string[]) => onChange({ ...chains, [task]: chain });
+
+  const move = (task: ModelTask, index: number, offset: number) => {
+    const chain = [...chains[task]];
+    [chain[index], chain[index + offset]] = [chain[index + offset], chain[index]];
+    updateChain(task, chain);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <Cpu size={14} /> Model AI theo tác vụ
+      </label>
+      <p className="text-xs text-slate-400 font-medium -mt-1">
+        Model đầu tiên là model chính. Nếu nó gặp lỗi, hệ thống lần lượt chuyển sang các model dự phòng bên dưới.
+        {!discovered && ' Nhấn "Kiểm tra" ở key để xem các model mà key dùng được.'}
+      </p>
+      {MODEL_TASKS.map(task => {
+        const chain = chains[task.id];
+        const options = models.filter(m => m.kind === task.kind && !chain.includes(m.id));
+        return (
+          <div key={task.id} className="p-4 rounded-2xl border-2 border-slate-100 space-y-2">
+            <p className="font-black text-slate-800 text-sm">{task.label}</p>
+            {chain.map((id, index) => {
+              const available = !discovered || models.some(m => m.id === id);
+              return (
+                <div key={id} className={`flex items-center gap-2 p-2 pl-3 rounded-xl ${index === 0 ? 'bg-orange-50' : 'bg-slate-50'}`}>
+                  <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full ${index === 0 ? 'bg-orange-100 text-orange-600' : 'bg-slate-200 text-slate-500'}`}>
+                    {index === 0 ? 'Chính' : `Dự phòng ${index}`}
+                  </span>
+                  <span className="flex-1 text-sm font-bold text-slate-700 truncate" title={id}>{modelName(id, models)}</span>
+                  {!available && <span className="text-[10px] font-black text-red-500">Key không dùng được</span>}
+                  <button onClick={() => move(task.id, index, -1)} disabled={index === 0} className="text-slate-400 hover:text-orange-500 disabled:opacity-20"><ChevronUp size={16} /></button>
+                  <button onClick={() => move(task.id, index, 1)} disabled={index === chain.length - 1} className="text-slate-400 hover:text-orange-500 disabled:opacity-20"><ChevronDown size={16} /></button>
+                  <button onClick={() => updateChain(task.id, chain.filter(m => m !== id))} disabled={chain.length === 1} className="text-slate-300 hover:text-red-500 disabled:opacity-20"><X size={16} /></button>
+                </div>
+              );
+            })}
+            {options.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Plus size={14} className="text-orange-500" />
+                <select
+                  value=""
+                  onChange={e => e.target.value && updateChain(task.id, [...chain, e.target.value])}
+                  className="flex-1 bg-transparent text-xs font-bold text-orange-500 outline-none cursor-pointer"
+                >
+                  <option value="">Thêm model dự phòng...</option>
+                  {options.map(m => <option key={m.id} value={m.id}>{m.name} ({m.id})</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModelChainEditor;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { Timer } from 'lucide-react';
+import { AUTO_STOP_CHOICES, getAutoStopSeconds, setAutoStopSeconds } from '../services/voiceActivity';
+
+const RecordingPanel: React.FC = () => {
+  const [autoStop, setAutoStop] = useState(getAutoStopSeconds());
+
+  const choose = (seconds: number) => {
+    setAutoStop(seconds);
+    setAutoStopSeconds(seconds);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <Timer size={14} /> Tự dừng ghi âm
+      </label>
+      <div className="grid grid-cols-4 gap-2">
+        {AUTO_STOP_CHOICES.map(seconds => (
+          <button
+            key={seconds}
+            onClick={() => choose(seconds)}
+            className={`py-3 rounded-2xl font-black text-xs transition-all ${autoStop === seconds ? 'bg-orange-500 text-white shadow-lg' : 'bg-slate-50 text-slate-500 border-2 border-slate-100 hover:border-orange-200'}`}
+          >
+            {seconds === 0 ? 'Tắt' : `${seconds} giây`}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400 font-medium">
+        Khi bé nói xong và im lặng đủ lâu, máy tự dừng ghi âm. Bé nhỏ hay ngập ngừng thì nên chọn lâu hơn.
+      </p>
+    </div>
+  );
+};
+
+export default RecordingPanel;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { BookOpen } from 'lucide-react';
+import { AlignedWord, WordVerdict, alignWords, summarizeAlignment } from '../services/wordAlignment';
+
+interface ScriptDiffProps {
+  script: string;
+  transcript: string;
+  // The examiner's "Hoàn thành" score, checked against the measured completion
+  taskFulfillment: number;
+}
+
+// A measured completion this many points (of 10) away from the examiner's score is pointed out
+const FULFILLMENT_GAP = 3;
+
+const VERDICT_STYLES: Record<WordVerdict, { className: string; label: string }> = {
+  correct: { className: 'text-emerald-600', label: 'Đọc đúng' },
+  substituted: { className: 'text-orange-600 bg-orange-50 rounded px-1', label: 'Đọc sai' },
+  omitted: { className: 'text-red-400 line-through decoration-2', label: 'Bỏ sót' },
+  inserted: { className: 'text-blue-500 italic text-sm', label: 'Thêm vào' },
+};
+
+const Word: React.FC<{ word: AlignedWord }> = ({ word }) => {
+  const style = VERDICT_STYLES[word.verdict];
+  if (word.verdict === 'inserted') return <span className={style.className} title="Bé nói thêm">+{word.spoken}</span>;
+  if (word.verdict === 'substituted') {
+    return (
+      <span className={style.className} title={`Bé đọc: ${word.spoken}`}>
+        {word.script}<sup className="ml-0.5 text-[10px] font-black text-orange-400">{word.spoken}</sup>
+      </span>
+    );
+  }
+  return <span className={style.className}>{word.script}</span>;
+};
+
+/** The script coloured by what the child actually read. */
+const ScriptDiff: React.FC<ScriptDiffProps> = ({ script, transcript, taskFulfillment }) => {
+  const aligned = useMemo(() => alignWords(script, transcript), [script, transcript]);
+  const summary = summarizeAlignment(aligned);
+  const measuredFulfillment = Math.round(summary.completion / 10);
+
+  return (
+    <div className="mx-6 md:mx-12 mt-8 md:mt-12 bg-emerald-50/60 p-6 md:p-10 rounded-[2rem] md:rounded-[3rem] border-4 border-dashed border-emerald-100 text-left space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h5 className="text-xl md:text-2xl font-black text-emerald-600 flex items-center gap-3 uppercase italic"><BookOpen /> Bé đã đọc bài thế nào</h5>
+        <div className="flex gap-2">
+          <span className="px-4 py-2 bg-white rounded-xl shadow-sm font-black text-sm text-emerald-600">Đúng {summary.accuracy}%</span>
+          <span className="px-4 py-2 bg-white rounded-xl shadow-sm font-black text-sm text-blue-600">Đọc tới {summary.completion}%</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-black">
+        {(Object.keys(VERDICT_STYLES) as WordVerdict[]).map(verdict => (
+          <span key={verdict} className={VERDICT_STYLES[verdict].className}>
+            {VERDICT_STYLES[verdict].label} ({summary[verdict]})
+          </span>
+        ))}
+      </div>
+
+      <p className="bg-white p-5 md:p-6 rounded-2xl md:rounded-3xl shadow-sm text-base md:text-lg font-bold leading-loose">
+        {aligned.map((word, i) => (
+          <React.Fragment key={i}>
+            <Word word={word} />{' '}
+          </React.Fragment>
+        ))}
+      </p>
+
+      {Math.abs(measuredFulfillment - taskFulfillment) >= FULFILLMENT_GAP && (
+        <p className="text-xs font-bold text-slate-500">
+          ⚖️ Điểm Hoàn thành của AI là {taskFulfillment}/10, còn theo số từ bé đọc tới thì khoảng {measuredFulfillment}/10. Thầy cô nghe lại để chấm cho chắc nhé.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ScriptDiff;
@@ -1,178 +1,287 @@
-
-import React, { useState, useEffect } from 'react';
-import { X, Key, Cpu, ExternalLink, CheckCircle2, AlertCircle } from 'lucide-react';
-
-interface SettingsModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onSave: (apiKey: string, model: string) => void;
-  currentApiKey: string;
-  currentModel: string;
-}
-
-const AI_MODELS = [
-  {
-    id: 'gemini-3-flash-preview',
-    name: 'Gemini 3 Flash',
-    desc: 'Nhanh nhất, phù hợp phần lớn tác vụ',
-    badge: 'Mặc định',
-    color: 'from-blue-500 to-cyan-400',
-  },
-  {
-    id: 'gemini-3-pro-preview',
-    name: 'Gemini 3 Pro',
-    desc: 'Chất lượng cao, phân tích sâu hơn',
-    badge: 'Pro',
-    color: 'from-purple-500 to-indigo-400',
-  },
-  {
-    id: 'gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    desc: 'Ổn định, tốc độ nhanh',
-    badge: 'Dự phòng',
-    color: 'from-emerald-500 to-teal-400',
-  },
-];
-
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentApiKey, currentModel }) => {
-  const [apiKey, setApiKey] = useState(currentApiKey);
-  const [selectedModel, setSelectedModel] = useState(currentModel || 'gemini-3-flash-preview');
-  const [showKey, setShowKey] = useState(false);
-
-  useEffect(() => {
-    setApiKey(currentApiKey);
-    setSelectedModel(currentModel || 'gemini-3-flash-preview');
-  }, [currentApiKey, currentModel, isOpen]);
-
-  if (!isOpen) return null;
-
-  const handleSave = () => {
-    if (!apiKey.trim()) {
-      alert('Bé ơi, nhập API Key trước nhé!');
-      return;
-    }
-    onSave(apiKey.trim(), selectedModel);
-  };
-
-  const maskedKey = apiKey ? apiKey.slice(0, 6) + '•••••••••' + apiKey.slice(-4) : '';
-
-  return (
-    <div className="fixed inset-0 z-[2000] bg-slate-900/80 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300" onClick={onClose}>
-      <div 
-        className="bg-white w-full max-w-lg rounded-[3rem] shadow-2xl overflow-hidden border-4 border-orange-50 animate-in zoom-in-95 duration-300" 
-        onClick={e => e.stopPropagation()}
-      >
-        {/* Header */}
-        <div className="bg-gradient-to-r from-orange-500 to-yellow-500 p-8 text-white relative">
-          <button 
-            onClick={onClose} 
-            className="absolute top-4 right-4 p-2 bg-white/20 rounded-full hover:bg-white/30 transition-all"
-          >
-            <X size={20} />
-          </button>
-          <div className="flex items-center gap-4">
-            <div className="bg-white/20 p-3 rounded-2xl">
-              <Key size={28} />
-            </div>
-            <div>
-              <h2 className="text-2xl font-black italic tracking-tighter">Thiết lập API Key</h2>
-              <p className="text-sm opacity-90 font-bold">Cài đặt AI cho SpeakPro Lab</p>
-            </div>
-          </div>
-        </div>
-
-        <div className="p-8 space-y-8">
-          {/* API Key Input */}
-          <div className="space-y-3">
-            <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
-              <Key size={14} /> API Key của bạn
-            </label>
-            <div className="relative">
-              <input
-                type={showKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={e => setApiKey(e.target.value)}
-                placeholder="Nhập Google AI API Key..."
-                className="w-full p-5 pr-20 bg-slate-50 border-2 border-orange-100 rounded-2xl outline-none font-bold text-lg focus:border-orange-400 transition-all shadow-inner"
-              />
-              <button
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-4 top-1/2 -translate-y-1/2 text-xs font-black text-orange-500 hover:text-orange-600 uppercase"
-              >
-                {showKey ? 'Ẩn' : 'Hiện'}
-              </button>
-            </div>
-            <a 
-              href="https://aistudio.google.com/api-keys" 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-2 text-sm font-bold text-blue-500 hover:text-blue-600 transition-colors"
-            >
-              <ExternalLink size={14} />
-              Lấy API Key miễn phí tại Google AI Studio →
-            </a>
-          </div>
-
-          {/* Model Selection */}
-          <div className="space-y-3">
-            <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
-              <Cpu size={14} /> Model AI
-            </label>
-            <p className="text-xs text-slate-400 font-medium -mt-1">
-              Nếu model chính gặp lỗi, hệ thống sẽ tự động chuyển sang model dự phòng.
-            </p>
-            <div className="space-y-3">
-              {AI_MODELS.map(model => (
-                <button
-                  key={model.id}
-                  onClick={() => setSelectedModel(model.id)}
-                  className={`w-full p-4 rounded-2xl border-2 text-left transition-all flex items-center gap-4 ${
-                    selectedModel === model.id
-                      ? 'border-orange-400 bg-orange-50 shadow-md scale-[1.02]'
-                      : 'border-slate-100 bg-white hover:border-orange-200 hover:bg-orange-50/30'
-                  }`}
-                >
-                  <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${model.color} flex items-center justify-center text-white shadow-lg`}>
-                    <Cpu size={20} />
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <p className="font-black text-slate-800">{model.name}</p>
-                      <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full ${
-                        model.badge === 'Mặc định' ? 'bg-blue-100 text-blue-600' :
-                        model.badge === 'Pro' ? 'bg-purple-100 text-purple-600' :
-                        'bg-emerald-100 text-emerald-600'
-                      }`}>{model.badge}</span>
-                    </div>
-                    <p className="text-xs text-slate-400 font-medium">{model.desc}</p>
-                  </div>
-                  {selectedModel === model.id && (
-                    <CheckCircle2 size={24} className="text-orange-500" />
-                  )}
-                </button>
-              ))}
-            </div>
-          </div>
-
-          {/* Save Button */}
-          <button
-            onClick={handleSave}
-            className="w-full py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-2xl font-black text-xl shadow-xl hover:scale-[1.02] active:scale-95 transition-all uppercase italic tracking-tighter"
-          >
-            💾 Lưu cài đặt
-          </button>
-
-          {/* Info */}
-          <div className="flex items-start gap-3 p-4 bg-blue-50 rounded-2xl">
-            <AlertCircle size={18} className="text-blue-500 mt-0.5 flex-shrink-0" />
-            <p className="text-xs text-blue-600 font-medium leading-relaxed">
-              API Key được lưu trên trình duyệt của bạn (localStorage), không gửi đến server nào khác ngoài Google AI.
-            </p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default SettingsModal;
+
+import React, { useState, useEffect } from 'react';
+import { X, Key, ExternalLink, AlertCircle, Cloud, WifiOff, Plus, Trash2, Loader2 } from 'lucide-react';
+import { AIProviderId } from '../services/aiProvider';
+import { getKeyHealth, getKeyStatus, KeyStatus } from '../services/keyPool';
+import { KeyTestResult, testApiKey } from '../services/geminiService';
+import { getDiscoveredModels, KNOWN_MODELS, ModelChains, ModelInfo } from '../services/modelCatalog';
+import ModelChainEditor from './ModelChainEditor';
+import KeyVaultPanel from './KeyVaultPanel';
+import { UnlockForm } from './UnlockKeyModal';
+import CassettePanel from './CassettePanel';
+import UsagePanel from './UsagePanel';
+import AudioCachePanel from './AudioCachePanel';
+import RecordingPanel from './RecordingPanel';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (apiKeys: string[], modelChains: ModelChains, providerId: AIProviderId) => void;
+  currentApiKeys: string[];
+  currentModelChains: ModelChains;
+  currentProvider: AIProviderId;
+  // Keys are encrypted and not unlocked yet: they can be neither shown nor edited
+  isKeyLocked: boolean;
+}
+
+const PROVIDER_OPTIONS: { id: AIProviderId; name: string; desc: string; icon: typeof Cloud }[] = [
+  { id: 'gemini', name: 'Google Gemini', desc: 'AI thật, cần API Key và Internet', icon: Cloud },
+  { id: 'mock', name: 'Chế độ Offline', desc: 'Dữ liệu mẫu để demo / kiểm thử, không cần key', icon: WifiOff },
+];
+
+const KEY_STATUS_BADGES: Record<KeyStatus, { label: string; className: string }> = {
+  ready: { label: 'Sẵn sàng', className: 'bg-emerald-100 text-emerald-600' },
+  cooldown: { label: 'Đang nghỉ', className: 'bg-amber-100 text-amber-600' },
+  invalid: { label: 'Key lỗi', className: 'bg-red-100 text-red-600' },
+  unused: { label: 'Chưa dùng', className: 'bg-slate-100 text-slate-500' },
+};
+
+const KEY_TEST_LABELS: Record<string, string> = {
+  'invalid-key': 'Key không hợp lệ',
+  quota: 'Key hết quota',
+  offline: 'Không có mạng',
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, onSave, currentApiKeys, currentModelChains, currentProvider, isKeyLocked }) => {
+  const [apiKeys, setApiKeys] = useState<string[]>(currentApiKeys.length ? currentApiKeys : ['']);
+  const [modelChains, setModelChains] = useState<ModelChains>(currentModelChains);
+  const [providerId, setProviderId] = useState<AIProviderId>(currentProvider);
+  const [showKey, setShowKey] = useState(false);
+  const [keyTests, setKeyTests] = useState<Record<string, KeyTestResult | 'testing'>>({});
+  const [discoveredModels, setDiscoveredModels] = useState<ModelInfo[] | null>(getDiscoveredModels());
+
+  useEffect(() => {
+    setApiKeys(currentApiKeys.length ? currentApiKeys : ['']);
+    setModelChains(currentModelChains);
+    setProviderId(currentProvider);
+  }, [currentApiKeys, currentModelChains, currentProvider, isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    const keys = apiKeys.map(k => k.trim()).filter(Boolean);
+    if (providerId === 'gemini' && !isKeyLocked && keys.length === 0) {
+      alert('Bé ơi, nhập API Key trước nhé!');
+      return;
+    }
+    onSave(keys, modelChains, providerId);
+  };
+
+  const handleTestKey = async (key: string) => {
+    setKeyTests(tests => ({ ...tests, [key]: 'testing' }));
+    const result = await testApiKey(key);
+    setKeyTests(tests => ({ ...tests, [key]: result }));
+    if (result.models.length) setDiscoveredModels(result.models);
+  };
+
+  const describeKeyTest = (key: string) => {
+    const test = keyTests[key];
+    if (!test || test === 'testing') return null;
+    if (test.ok) return <span className="text-emerald-600">✓ Key dùng được · {test.models.length} model</span>;
+    const label = KEY_TEST_LABELS[test.error?.kind || ''] || 'Không kiểm tra được key';
+    return <span className="text-red-500" title={test.error?.detail}>✗ {label}</span>;
+  };
+
+  const countKind = (kind: ModelInfo['kind']) => discoveredModels?.filter(m => m.kind === kind).length ?? 0;
+
+  const updateKey = (index: number, value: string) =>
+    setApiKeys(keys => keys.map((k, i) => i === index ? value : k));
+
+  const removeKey = (index: number) =>
+    setApiKeys(keys => keys.length > 1 ? keys.filter((_, i) => i !== index) : ['']);
+
+  const describeHealth = (key: string) => {
+    const health = getKeyHealth(key);
+    if (!health) return '';
+    const parts = [`${health.successes} lượt thành công`, `${health.quotaHits} lần hết quota`];
+    if (health.cooldownUntil > Date.now()) parts.unshift(`còn ${Math.ceil((health.cooldownUntil - Date.now()) / 1000)}s`);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/80 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300" onClick={onClose}>
+      <div 
+        className="bg-white w-full max-w-lg rounded-[3rem] shadow-2xl overflow-hidden border-4 border-orange-50 animate-in zoom-in-95 duration-300" 
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-yellow-500 p-8 text-white relative">
+          <button 
+            onClick={onClose} 
+            className="absolute top-4 right-4 p-2 bg-white/20 rounded-full hover:bg-white/30 transition-all"
+          >
+            <X size={20} />
+          </button>
+          <div className="flex items-center gap-4">
+            <div className="bg-white/20 p-3 rounded-2xl">
+              <Key size={28} />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black italic tracking-tighter">Thiết lập API Key</h2>
+              <p className="text-sm opacity-90 font-bold">Cài đặt AI cho SpeakPro Lab</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 space-y-8 max-h-[70vh] overflow-y-auto">
+          {/* Provider Selection */}
+          <div className="space-y-3">
+            <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+              <Cloud size={14} /> Nguồn AI
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {PROVIDER_OPTIONS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setProviderId(p.id)}
+                  className={`p-4 rounded-2xl border-2 text-left transition-all space-y-1 ${
+                    providerId === p.id
+                      ? 'border-orange-400 bg-orange-50 shadow-md'
+                      : 'border-slate-100 bg-white hover:border-orange-200'
+                  }`}
+                >
+                  <p className="font-black text-slate-800 flex items-center gap-2"><p.icon size={16} className="text-orange-500" /> {p.name}</p>
+                  <p className="text-[11px] text-slate-400 font-medium leading-snug">{p.desc}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {providerId === 'gemini' && (
+            <>
+              {isKeyLocked ? (
+                <div className="space-y-3">
+                  <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+                    <Key size={14} /> API Key đang bị khoá
+                  </label>
+                  <p className="text-xs text-slate-400 font-medium -mt-1">Nhập mật khẩu để xem và sửa key.</p>
+                  <UnlockForm onUnlocked={() => undefined} />
+                </div>
+              ) : (
+                <>
+                  {/* API Key Pool */}
+                  <div className="space-y-3">
+                    <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+                      <Key size={14} /> API Key của bạn
+                      <button
+                        onClick={() => setShowKey(!showKey)}
+                        className="ml-auto text-xs font-black text-orange-500 hover:text-orange-600 uppercase tracking-normal"
+                      >
+                        {showKey ? 'Ẩn' : 'Hiện'}
+                      </button>
+                    </label>
+                    <p className="text-xs text-slate-400 font-medium -mt-1">
+                      Có thể nhập nhiều key. Khi một key hết quota, hệ thống tự chuyển sang key tiếp theo.
+                    </p>
+                    {apiKeys.map((key, index) => {
+                      const saved = currentApiKeys.includes(key.trim());
+                      const badge = KEY_STATUS_BADGES[getKeyStatus(key.trim())];
+                      return (
+                        <div key={index} className="space-y-1">
+                          <div className="relative">
+                            <input
+                              type={showKey ? 'text' : 'password'}
+                              value={key}
+                              onChange={e => updateKey(index, e.target.value)}
+                              placeholder={index === 0 ? 'Nhập Google AI API Key...' : 'Key dự phòng...'}
+                              className="w-full p-5 pr-36 bg-slate-50 border-2 border-orange-100 rounded-2xl outline-none font-bold text-lg focus:border-orange-400 transition-all shadow-inner"
+                            />
+                            <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-3">
+                              <button
+                                onClick={() => handleTestKey(key.trim())}
+                                disabled={!key.trim() || keyTests[key.trim()] === 'testing'}
+                                className="text-xs font-black text-blue-500 hover:text-blue-600 uppercase disabled:opacity-30 flex items-center gap-1"
+                              >
+                                {keyTests[key.trim()] === 'testing' && <Loader2 size={12} className="animate-spin" />} Kiểm tra
+                              </button>
+                              <button
+                                onClick={() => removeKey(index)}
+                                className="text-slate-300 hover:text-red-500 transition-colors"
+                                title="Xoá key"
+                              >
+                                <Trash2 size={18} />
+                              </button>
+                            </div>
+                          </div>
+                          {key.trim() && (saved || keyTests[key.trim()]) && (
+                            <div className="flex flex-wrap items-center gap-2 px-2 text-[11px] font-bold">
+                              <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>
+                              <span className="text-slate-400 font-medium">{describeHealth(key.trim())}</span>
+                              {describeKeyTest(key.trim())}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                    <button
+                      onClick={() => setApiKeys(keys => [...keys, ''])}
+                      className="w-full py-3 border-2 border-dashed border-orange-200 rounded-2xl font-black text-sm text-orange-500 hover:bg-orange-50 transition-all flex items-center justify-center gap-2"
+                    >
+                      <Plus size={16} /> Thêm key
+                    </button>
+                    <a 
+                      href="https://aistudio.google.com/api-keys" 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-2 text-sm font-bold text-blue-500 hover:text-blue-600 transition-colors"
+                    >
+                      <ExternalLink size={14} />
+                      Lấy API Key miễn phí tại Google AI Studio →
+                    </a>
+                  </div>
+
+                  {/* Passphrase protection */}
+                  <KeyVaultPanel keys={apiKeys} />
+                </>
+              )}
+
+              {discoveredModels && (
+                <p className="text-xs text-slate-400 font-medium -mt-4" title={discoveredModels.filter(m => m.kind === 'image').map(m => m.id).join(', ')}>
+                  Key dùng được {countKind('text')} model văn bản · {countKind('tts')} model giọng nói · {countKind('image')} model tạo ảnh
+                </p>
+              )}
+
+              {/* Model chains per task */}
+              <ModelChainEditor
+                chains={modelChains}
+                models={discoveredModels || KNOWN_MODELS}
+                discovered={!!discoveredModels}
+                onChange={setModelChains}
+              />
+            </>
+          )}
+
+          {/* API usage & budget */}
+          <UsagePanel />
+
+          {/* Auto-stop while recording */}
+          <RecordingPanel />
+
+          {/* Stored teacher audio */}
+          <AudioCachePanel />
+
+          {/* Record / replay */}
+          <CassettePanel />
+
+          {/* Save Button */}
+          <button
+            onClick={handleSave}
+            className="w-full py-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-2xl font-black text-xl shadow-xl hover:scale-[1.02] active:scale-95 transition-all uppercase italic tracking-tighter"
+          >
+            💾 Lưu cài đặt
+          </button>
+
+          {/* Info */}
+          <div className="flex items-start gap-3 p-4 bg-blue-50 rounded-2xl">
+            <AlertCircle size={18} className="text-blue-500 mt-0.5 flex-shrink-0" />
+            <p className="text-xs text-blue-600 font-medium leading-relaxed">
+              API Key được lưu trên trình duyệt của bạn (localStorage, có thể mã hoá bằng mật khẩu), không gửi đến server nào khác ngoài Google AI.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Headphones, Mic, Loader2, RotateCcw, Square, Trophy, ArrowLeft, Play } from 'lucide-react';
+import { CEFRLevel, EvaluationResult, ScriptSentence } from '../types';
+import { evaluatePresentation, ensureProviderReady } from '../services/geminiService';
+import { AIError, classifyError } from '../services/aiErrors';
+import { isAbortError } from '../services/abort';
+import { normalizeRecording } from '../services/audioNormalizer';
+import { ClipRecording, recordClip } from '../services/clipRecorder';
+import { describeMicError, openMicrophone } from '../services/micDevices';
+import { compileShadowingResult, isWeakTake, takeDurationMs } from '../services/shadowing';
+import { splitWords } from '../services/scriptParser';
+
+interface ShadowingPanelProps {
+  sentences: ScriptSentence[];
+  level: CEFRLevel;
+  // Word the teacher is speaking in the sentence being played
+  spokenWord: number | null;
+  // Plays one sentence in the teacher voice; resolves false if playback was stopped
+  playSentence: (index: number) => Promise<boolean>;
+  stopTeacher: () => void;
+  // A missing or locked key has to be fixed in the app before anything can be scored
+  onKeyError: (err: unknown) => void;
+  onFinish: (result: EvaluationResult) => void;
+  onExit: () => void;
+}
+
+interface SentenceTake {
+  state: 'evaluating' | 'done' | 'error';
+  blob: Blob;
+  result?: EvaluationResult;
+  error?: AIError;
+}
+
+const ShadowingPanel: React.FC<ShadowingPanelProps> = ({ sentences, level, spokenWord, playSentence, stopTeacher, onKeyError, onFinish, onExit }) => {
+  const [takes, setTakes] = useState<(SentenceTake | undefined)[]>([]);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [phase, setPhase] = useState<'listening' | 'recording' | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+
+  // Aborted by "Dừng"; scoring of finished takes carries on until the panel closes
+  const sessionRef = useRef<AbortController | null>(null);
+  const scoringRef = useRef(new AbortController());
+  const clipRef = useRef<ClipRecording | null>(null);
+  const takeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const running = current !== null;
+
+  // Leaving the panel ends the session: playback, recording and scoring in flight
+  useEffect(() => () => {
+    sessionRef.current?.abort();
+    scoringRef.current.abort();
+    clipRef.current?.stop();
+    takeAudioRef.current?.pause();
+  }, []);
+
+  const updateTake = (index: number, take: SentenceTake | undefined) =>
+    setTakes(prev => {
+      const next = [...prev];
+      next[index] = take;
+      return next;
+    });
+
+  const evaluateTake = async (index: number, blob: Blob, signal: AbortSignal) => {
+    updateTake(index, { state: 'evaluating', blob });
+    try {
+      if (!blob.size) throw new AIError('unsupported-audio', 'empty recording');
+      const upload = await normalizeRecording(blob);
+      const result = await evaluatePresentation(sentences[index].text, upload, level, null, signal);
+      if (!signal.aborted) updateTake(index, { state: 'done', blob, result });
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) {
+        updateTake(index, undefined);
+        return;
+      }
+      console.error('[SpeakPro] Shadowing evaluation error:', err);
+      updateTake(index, { state: 'error', blob, error: classifyError(err) });
+    }
+  };
+
+  // Listen, then repeat, for each sentence in turn; takes are scored in the background
+  const practise = async (indices: number[]) => {
+    try {
+      ensureProviderReady();
+    } catch (err) {
+      onKeyError(err);
+      return;
+    }
+
+    const session = new AbortController();
+    sessionRef.current = session;
+    setMicError(null);
+    takeAudioRef.current?.pause();
+
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophone();
+    } catch (err) {
+      console.error('[SpeakPro] Shadowing mic error:', err);
+      setMicError(describeMicError(err));
+      return;
+    }
+
+    try {
+      for (const index of indices) {
+        setCurrent(index);
+        setPhase('listening');
+        if (!await playSentence(index) || session.signal.aborted) break;
+
+        setPhase('recording');
+        const clip = recordClip(stream, takeDurationMs(sentences[index].text, level));
+        clipRef.current = clip;
+        const blob = await clip.done;
+        clipRef.current = null;
+        if (session.signal.aborted) break;
+        evaluateTake(index, blob, scoringRef.current.signal);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('[SpeakPro] Shadowing error:', err);
+        setMicError(classifyError(err).message);
+      }
+    } finally {
+      stream.getTracks().forEach(t => t.stop());
+      setCurrent(null);
+      setPhase(null);
+    }
+  };
+
+  const stopPractice = () => {
+    sessionRef.current?.abort();
+    stopTeacher();
+    clipRef.current?.stop();
+  };
+
+  const playTake = (take: SentenceTake) => {
+    takeAudioRef.current?.pause();
+    const url = URL.createObjectURL(take.blob);
+    const audio = new Audio(url);
+    takeAudioRef.current = audio;
+    audio.onended = () => URL.revokeObjectURL(url);
+    audio.play().catch(() => URL.revokeObjectURL(url));
+  };
+
+  const weakIndices = sentences.map((_, i) => i).filter(i => {
+    const take = takes[i];
+    return take?.state === 'error' || (take?.state === 'done' && isWeakTake(take.result!));
+  });
+  const pendingIndices = sentences.map((_, i) => i).filter(i => !takes[i]);
+  const allDone = sentences.length > 0 && sentences.every((_, i) => takes[i]?.state === 'done');
+  const started = takes.some(Boolean);
+
+  const finish = () => {
+    const scored = sentences.map((sentence, i) => ({ sentence: sentence.text, result: takes[i]!.result! }));
+    onFinish(compileShadowingResult(scored, level));
+  };
+
+  return (
+    <div className="space-y-8 pb-48 animate-in fade-in duration-700">
+      <div className="bg-white rounded-[3rem] md:rounded-[4.5rem] shadow-2xl border-[10px] md:border-[16px] border-white p-8 md:p-12 space-y-8">
+        <div className="flex items-center gap-4 md:gap-6">
+          <div className="bg-pink-500 p-3 md:p-4 rounded-[1.5rem] text-white shadow-xl -rotate-3"><Headphones size={28} /></div>
+          <div>
+            <h4 className="text-xl md:text-3xl font-black italic tracking-tighter text-slate-800 uppercase">Nói theo cô từng câu</h4>
+            <p className="text-sm font-bold text-slate-400">Bé nghe cô đọc một câu, rồi nói lại ngay câu đó nhé! 🎧</p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {sentences.map((sentence, index) => {
+            const take = takes[index];
+            const active = index === current;
+            const weak = take?.state === 'done' && isWeakTake(take.result!);
+            return (
+              <div key={index} className={`flex items-start gap-3 md:gap-4 p-4 md:p-5 rounded-[1.5rem] md:rounded-[2rem] border-4 transition-all ${active ? 'border-orange-300 bg-orange-50' : 'border-slate-50 bg-slate-50/60'}`}>
+                <span className="w-8 h-8 md:w-10 md:h-10 shrink-0 bg-white text-orange-500 rounded-full flex items-center justify-center font-black text-sm shadow-sm">{index + 1}</span>
+                <div className="flex-1 space-y-2">
+                  <p className="text-lg md:text-2xl font-black text-slate-800 leading-snug">
+                    {active && phase === 'listening'
+                      ? splitWords(sentence.text).map((word, w) => (
+                          <React.Fragment key={w}>
+                            <span className={`rounded-lg transition-colors ${w === spokenWord ? 'bg-orange-400 text-white' : ''}`}>{word}</span>{' '}
+                          </React.Fragment>
+                        ))
+                      : sentence.text}
+                  </p>
+                  {active && phase === 'listening' && <p className="text-xs font-black uppercase text-blue-500 flex items-center gap-2"><Headphones size={14} /> Bé nghe cô đọc...</p>}
+                  {active && phase === 'recording' && (
+                    <div className="flex items-center gap-3">
+                      <p className="text-xs font-black uppercase text-red-500 flex items-center gap-2 animate-pulse"><Mic size={14} /> Đến lượt bé nói!</p>
+                      <button onClick={() => clipRef.current?.stop()} className="px-4 py-1.5 bg-red-600 text-white rounded-full font-black text-xs hover:bg-red-700">Xong ✅</button>
+                    </div>
+                  )}
+                  {take?.state === 'evaluating' && <p className="text-xs font-black uppercase text-slate-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Cô đang nghe lại...</p>}
+                  {take?.state === 'error' && <p className="text-xs font-bold text-red-500">{take.error!.message}</p>}
+                  {take?.state === 'done' && take.result!.mistakes?.length > 0 && (
+                    <p className="text-xs font-bold text-slate-500">Chú ý: {take.result!.mistakes.map(m => m.word).join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {take?.state === 'done' && (
+                    <span className={`text-sm md:text-base font-black px-3 py-1 rounded-full ${weak ? 'bg-amber-100 text-amber-600' : 'bg-emerald-100 text-emerald-600'}`}>{take.result!.score}/10</span>
+                  )}
+                  {take && !running && (
+                    <button onClick={() => playTake(take)} title="Nghe lại giọng bé" className="p-2 rounded-xl bg-white text-blue-500 hover:bg-blue-50 shadow-sm"><Play size={16} /></button>
+                  )}
+                  {!running && take?.state !== 'evaluating' && (
+                    <button onClick={() => practise([index])} title="Nói lại câu này" className="p-2 rounded-xl bg-white text-pink-500 hover:bg-pink-50 shadow-sm"><RotateCcw size={16} /></button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {micError && <p className="text-sm font-bold text-red-500 text-center">{micError}</p>}
+      </div>
+
+      <div className="fixed bottom-6 md:bottom-10 left-1/2 -translate-x-1/2 z-[100] w-full max-w-lg px-4 md:px-6">
+        <div className="bg-white/95 backdrop-blur-md p-3 md:p-4 rounded-[2rem] shadow-2xl border-4 border-pink-100 flex items-center gap-2">
+          {running ? (
+            <button onClick={stopPractice} className="flex-1 py-4 bg-slate-800 text-white rounded-2xl font-black uppercase flex items-center justify-center gap-2 hover:bg-slate-700"><Square size={18} /> Dừng</button>
+          ) : (
+            <>
+              <button onClick={onExit} title="Quay lại" className="p-4 bg-slate-100 text-slate-600 rounded-2xl hover:bg-slate-200"><ArrowLeft size={20} /></button>
+              {pendingIndices.length > 0 && (
+                <button onClick={() => practise(pendingIndices)} className="flex-1 py-4 bg-gradient-to-r from-red-500 to-pink-600 text-white rounded-2xl font-black uppercase flex items-center justify-center gap-2"><Mic size={18} /> {started ? 'Tiếp tục' : 'Bắt đầu'}</button>
+              )}
+              {started && weakIndices.length > 0 && (
+                <button onClick={() => practise(weakIndices)} className="flex-1 py-4 bg-pink-50 text-pink-600 rounded-2xl font-black text-sm uppercase flex items-center justify-center gap-2 hover:bg-pink-100"><RotateCcw size={18} /> Luyện lại câu yếu ({weakIndices.length})</button>
+              )}
+              {started && (
+                <button onClick={finish} disabled={!allDone} className="flex-1 py-4 bg-orange-500 text-white rounded-2xl font-black text-sm uppercase flex items-center justify-center gap-2 shadow-xl hover:scale-105 transition-all disabled:opacity-40 disabled:hover:scale-100"><Trophy size={18} /> Xem kết quả</button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShadowingPanel;
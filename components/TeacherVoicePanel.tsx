@@ -0,0 +1,84 @@
+import React from 'react';
+import { Volume2, Gauge, Snail } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import { getCurriculumLevel } from '../curriculum';
+import { SLOW_PLAYBACK_RATE, TEACHER_VOICES, TeacherVoiceSettings, VOICE_PACES } from '../services/voiceCatalog';
+
+interface TeacherVoicePanelProps {
+  childName: string;
+  level: CEFRLevel;
+  settings: TeacherVoiceSettings;
+  onChange: (settings: TeacherVoiceSettings) => void;
+  onPreview: () => void;
+}
+
+const TeacherVoicePanel: React.FC<TeacherVoicePanelProps> = ({ childName, level, settings, onChange, onPreview }) => {
+  const update = (changes: Partial<TeacherVoiceSettings>) => onChange({ ...settings, ...changes });
+  const levelPace = VOICE_PACES.find(p => p.id === getCurriculumLevel(level).teacherPace)!;
+
+  return (
+    <div className="mb-8 p-5 md:p-6 bg-slate-50 rounded-[2rem] border-4 border-slate-100 space-y-5 animate-in fade-in">
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-black text-slate-800 text-sm md:text-base">Giọng đọc của {childName.trim() || 'bé'}</p>
+        <button onClick={onPreview} className="px-4 py-2 bg-white rounded-xl font-black text-xs text-orange-500 shadow-sm hover:bg-orange-50 flex items-center gap-1"><Volume2 size={14} /> Nghe thử</button>
+      </div>
+
+      {(['female', 'male'] as const).map(gender => (
+        <div key={gender} className="space-y-2">
+          <p className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em]">{gender === 'female' ? 'Giọng cô' : 'Giọng thầy'}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {TEACHER_VOICES.filter(v => v.gender === gender).map(voice => (
+              <button
+                key={voice.id}
+                onClick={() => update({ voiceName: voice.id })}
+                className={`p-3 rounded-2xl text-left border-2 transition-all ${settings.voiceName === voice.id ? 'border-orange-400 bg-orange-50' : 'border-transparent bg-white hover:border-orange-100'}`}
+              >
+                <p className="font-black text-sm text-slate-800">{voice.label}</p>
+                <p className="text-[10px] font-bold text-slate-400">{voice.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <p className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-1"><Gauge size={12} /> Tốc độ đọc</p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => update({ pace: null })}
+            className={`px-4 py-2 rounded-xl font-black text-xs transition-all ${settings.pace === null ? 'bg-orange-500 text-white' : 'bg-white text-slate-600 hover:bg-orange-50'}`}
+          >
+            Theo trình độ ({levelPace.label})
+          </button>
+          {VOICE_PACES.map(pace => (
+            <button
+              key={pace.id}
+              onClick={() => update({ pace: pace.id })}
+              className={`px-4 py-2 rounded-xl font-black text-xs transition-all ${settings.pace === pace.id ? 'bg-orange-500 text-white' : 'bg-white text-slate-600 hover:bg-orange-50'}`}
+            >
+              {pace.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em]">Phong cách (tuỳ chọn, tiếng Anh)</p>
+        <input
+          type="text"
+          value={settings.style}
+          onChange={e => update({ style: e.target.value })}
+          placeholder="VD: cheerful and warm, like a kindergarten teacher"
+          className="w-full p-3 bg-white border-2 border-slate-100 rounded-2xl outline-none font-bold text-sm focus:border-orange-400 transition-all"
+        />
+      </div>
+
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input type="checkbox" checked={settings.slowPlayback} onChange={e => update({ slowPlayback: e.target.checked })} className="w-5 h-5 accent-orange-500" />
+        <span className="text-sm font-bold text-slate-600 flex items-center gap-1"><Snail size={16} className="text-orange-400" /> Phát chậm ({SLOW_PLAYBACK_RATE}x) để bé dễ nghe theo</span>
+      </label>
+    </div>
+  );
+};
+
+export default TeacherVoicePanel;
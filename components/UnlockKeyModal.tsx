@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { X, Lock, Loader2 } from 'lucide-react';
+import { unlockVault } from '../services/keyVault';
+
+interface UnlockFormProps {
+  onUnlocked: () => void;
+}
+
+/** Passphrase field that opens the encrypted key vault. */
+export const UnlockForm: React.FC<UnlockFormProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      onUnlocked();
+    } catch (err: any) {
+      setError(err?.message || 'Không mở khoá được.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleUnlock()}
+          placeholder="Mật khẩu của thầy cô..."
+          autoFocus
+          className="flex-1 p-4 bg-slate-50 border-2 border-orange-100 rounded-2xl outline-none font-bold focus:border-orange-400 transition-all shadow-inner"
+        />
+        <button
+          onClick={handleUnlock}
+          disabled={!passphrase || isUnlocking}
+          className="px-5 bg-gradient-to-r from-orange-500 to-yellow-500 text-white rounded-2xl font-black text-sm uppercase disabled:opacity-50 flex items-center gap-2"
+        >
+          {isUnlocking ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />} Mở khoá
+        </button>
+      </div>
+      {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+interface UnlockKeyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUnlocked: () => void;
+}
+
+const UnlockKeyModal: React.FC<UnlockKeyModalProps> = ({ isOpen, onClose, onUnlocked }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-slate-900/80 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md rounded-[3rem] shadow-2xl overflow-hidden border-4 border-orange-50 animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="bg-gradient-to-r from-orange-500 to-yellow-500 p-8 text-white relative">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 bg-white/20 rounded-full hover:bg-white/30 transition-all"
+          >
+            <X size={20} />
+          </button>
+          <div className="flex items-center gap-4">
+            <div className="bg-white/20 p-3 rounded-2xl">
+              <Lock size={28} />
+            </div>
+            <div>
+              <h2 className="text-2xl font-black italic tracking-tighter">Mở khoá API Key</h2>
+              <p className="text-sm opacity-90 font-bold">Key đã được thầy cô bảo vệ bằng mật khẩu</p>
+            </div>
+          </div>
+        </div>
+        <div className="p-8">
+          <UnlockForm onUnlocked={onUnlocked} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockKeyModal;
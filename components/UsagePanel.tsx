@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, Trash2, Wallet } from 'lucide-react';
+import { UsageSummary, summarizeUsage, clearUsage, getDailyBudget, setDailyBudget } from '../services/usageTracker';
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const failureRate = (calls: number, failures: number) => calls ? `${Math.round((failures / calls) * 100)}%` : '–';
+
+const UsagePanel: React.FC = () => {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState(getDailyBudget()?.toString() || '');
+
+  const refresh = () => {
+    summarizeUsage().then(setSummary).catch(() => setSummary(null));
+  };
+
+  useEffect(refresh, []);
+
+  const handleBudget = (value: string) => {
+    setBudget(value);
+    const parsed = parseFloat(value);
+    setDailyBudget(parsed > 0 ? parsed : null);
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Xoá toàn bộ nhật ký sử dụng API?')) return;
+    await clearUsage();
+    refresh();
+  };
+
+  const budgetValue = getDailyBudget();
+  const todayCost = summary?.today.costUsd ?? 0;
+  const overBudget = budgetValue !== null && todayCost >= budgetValue;
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-black uppercase text-slate-400 tracking-[0.2em] flex items-center gap-2">
+        <BarChart3 size={14} /> Sử dụng API (7 ngày)
+      </label>
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="p-3 bg-slate-50 rounded-2xl text-center">
+              <p className="text-lg font-black text-slate-800">{summary.today.calls}</p>
+              <p className="text-[10px] font-black uppercase text-slate-400">Lượt gọi hôm nay</p>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-2xl text-center">
+              <p className="text-lg font-black text-slate-800">{formatTokens(summary.today.tokens)}</p>
+              <p className="text-[10px] font-black uppercase text-slate-400">Token hôm nay</p>
+            </div>
+            <div className={`p-3 rounded-2xl text-center ${overBudget ? 'bg-red-50' : 'bg-slate-50'}`}>
+              <p className={`text-lg font-black ${overBudget ? 'text-red-500' : 'text-slate-800'}`}>{formatCost(todayCost)}</p>
+              <p className="text-[10px] font-black uppercase text-slate-400">Chi phí ước tính</p>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border-2 border-slate-100 overflow-hidden">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-400 font-black uppercase text-[10px]">
+                <tr>
+                  <th className="p-2 text-left">Ngày</th>
+                  <th className="p-2 text-right">Lượt</th>
+                  <th className="p-2 text-right">Token</th>
+                  <th className="p-2 text-right">Lỗi</th>
+                  <th className="p-2 text-right">Chi phí</th>
+                </tr>
+              </thead>
+              <tbody className="font-bold text-slate-600">
+                {summary.days.map(d => (
+                  <tr key={d.day} className="border-t border-slate-100">
+                    <td className="p-2">{d.day.slice(5)}</td>
+                    <td className="p-2 text-right">{d.calls}</td>
+                    <td className="p-2 text-right">{formatTokens(d.tokens)}</td>
+                    <td className="p-2 text-right">{failureRate(d.calls, d.failures)}</td>
+                    <td className="p-2 text-right">{formatCost(d.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {summary.models.length > 0 && (
+            <div className="space-y-2">
+              {summary.models.map(m => (
+                <div key={m.model} className="flex items-center justify-between gap-3 p-3 bg-slate-50 rounded-2xl text-xs">
+                  <span className="font-black text-slate-700 truncate">{m.model}</span>
+                  <span className="font-bold text-slate-400 whitespace-nowrap">
+                    {m.calls} lượt · {formatTokens(m.tokens)} token · lỗi {failureRate(m.calls, m.failures)} · <span className="text-orange-500">{formatCost(m.costUsd)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label className="flex-1 flex items-center gap-2 p-3 bg-slate-50 rounded-2xl border-2 border-slate-100 focus-within:border-orange-400 transition-all">
+          <Wallet size={16} className="text-orange-500 flex-shrink-0" />
+          <span className="text-xs font-black text-slate-500 whitespace-nowrap">Ngân sách/ngày $</span>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={budget}
+            onChange={e => handleBudget(e.target.value)}
+            placeholder="Không giới hạn"
+            className="w-full bg-transparent outline-none font-bold text-sm text-slate-700"
+          />
+        </label>
+        <button onClick={handleClear} className="px-4 py-3 bg-red-50 rounded-2xl font-black text-xs text-red-500 hover:bg-red-100 flex items-center gap-1"><Trash2 size={14} /> Xoá</button>
+      </div>
+      <p className="text-xs text-slate-400 font-medium">
+        Chi phí là ước tính theo bảng giá công khai của Google; model chưa có trong bảng giá được tính theo giá cao nhất. Khi vượt ngân sách trong ngày, app sẽ tạm dừng soạn bài mới.
+      </p>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scissors, Crop, Undo2, Play, Square, Loader2 } from 'lucide-react';
+import { decodeRecording } from '../services/audioUtils';
+import { TimeRange } from '../services/speechAlignment';
+import {
+  RecordingEdit,
+  applyEdit,
+  editedDuration,
+  editedSamples,
+  isEdited,
+  keptRanges,
+  toOriginalTime,
+  uneditedRecording,
+  waveformPeaks
+} from '../services/recordingEditor';
+
+interface WaveformEditorProps {
+  // The recording as it came from the mic; every edit starts from it
+  original: Blob;
+  // The edited recording, or null when it is back to the original
+  onChange: (edited: Blob | null) => void;
+}
+
+type Drag = { mode: 'start' | 'end' } | { mode: 'select'; from: number };
+
+const BARS = 150;
+// A drag shorter than this is a click, not a selection
+const MIN_SELECTION_SECONDS = 0.1;
+// How close to a trim handle, as a share of the width, a press grabs it
+const HANDLE_GRAB = 0.02;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const WaveformEditor: React.FC<WaveformEditorProps> = ({ original, onChange }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [edit, setEdit] = useState<RecordingEdit | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const waveRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const ctxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const stopPreview = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    source?.stop();
+    setPlayhead(null);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setBuffer(null);
+    setError(null);
+    decodeRecording(original)
+      .then(decoded => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(waveformPeaks(decoded, BARS));
+        setEdit(uneditedRecording(decoded.duration));
+        setSelection(null);
+      })
+      .catch(err => {
+        console.warn('[SpeakPro] Could not decode recording for editing:', err);
+        if (!cancelled) setError('Không đọc được bản ghi âm để chỉnh sửa.');
+      });
+    return () => { cancelled = true; };
+  }, [original]);
+
+  useEffect(() => () => {
+    stopPreview();
+    ctxRef.current?.close().catch(() => { });
+  }, []);
+
+  if (error) return <p className="text-xs font-bold text-red-500 text-center">{error}</p>;
+  if (!buffer || !edit) {
+    return <p className="text-xs font-bold text-slate-400 flex items-center justify-center gap-2"><Loader2 size={14} className="animate-spin" /> Đang vẽ sóng âm...</p>;
+  }
+
+  const duration = buffer.duration;
+  const percent = (time: number) => `${(time / duration) * 100}%`;
+
+  const commit = (next: RecordingEdit) => {
+    stopPreview();
+    setEdit(next);
+    setSelection(null);
+    onChange(isEdited(next, duration) ? applyEdit(buffer, next) : null);
+  };
+
+  const timeAt = (clientX: number) => {
+    const rect = waveRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    const grab = HANDLE_GRAB * duration;
+    if (Math.abs(time - edit.start) <= grab) dragRef.current = { mode: 'start' };
+    else if (Math.abs(time - edit.end) <= grab) dragRef.current = { mode: 'end' };
+    else {
+      dragRef.current = { mode: 'select', from: time };
+      setSelection(null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+    if (drag.mode === 'start') setEdit({ ...edit, start: Math.min(time, edit.end - MIN_SELECTION_SECONDS) });
+    else if (drag.mode === 'end') setEdit({ ...edit, end: Math.max(time, edit.start + MIN_SELECTION_SECONDS) });
+    else setSelection({ start: Math.min(drag.from, time), end: Math.max(drag.from, time) });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.mode !== 'select') commit(edit);
+    else if (selection && selection.end - selection.start < MIN_SELECTION_SECONDS) setSelection(null);
+  };
+
+  const keepSelection = () => {
+    if (!selection) return;
+    commit({
+      start: selection.start,
+      end: selection.end,
+      cuts: edit.cuts.filter(c => c.end > selection.start && c.start < selection.end),
+    });
+  };
+
+  const cutSelection = () => {
+    if (!selection) return;
+    commit({ ...edit, cuts: [...edit.cuts, selection] });
+  };
+
+  const togglePreview = () => {
+    if (sourceRef.current) {
+      stopPreview();
+      return;
+    }
+    if (!ctxRef.current) ctxRef.current = new AudioContext();
+    const ctx = ctxRef.current;
+    const samples = editedSamples(buffer, edit);
+    if (!samples.length) return;
+    const preview = ctx.createBuffer(1, samples.length, buffer.sampleRate);
+    preview.copyToChannel(samples, 0);
+    const source = ctx.createBufferSource();
+    source.buffer = preview;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      if (sourceRef.current === source) stopPreview();
+    };
+    const startedAt = ctx.currentTime;
+    source.start();
+    sourceRef.current = source;
+    const follow = () => {
+      setPlayhead(toOriginalTime(edit, ctx.currentTime - startedAt));
+      frameRef.current = requestAnimationFrame(follow);
+    };
+    follow();
+  };
+
+  // Everything outside the trim handles and inside a cut is greyed out
+  const removed: TimeRange[] = [{ start: 0, end: edit.start }, { start: edit.end, end: duration }, ...edit.cuts]
+    .filter(r => r.end > r.start);
+  const kept = keptRanges(edit);
+  const isInKept = (time: number) => kept.some(r => time >= r.start && time <= r.end);
+
+  return (
+    <div className="bg-white p-4 rounded-[2rem] shadow-2xl border-4 border-blue-100 space-y-3">
+      <div
+        ref={waveRef}
+        className="relative h-24 bg-slate-50 rounded-2xl overflow-hidden cursor-crosshair touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="absolute inset-0 flex items-center gap-px px-px">
+          {peaks.map((peak, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full ${isInKept(((i + 0.5) / BARS) * duration) ? 'bg-blue-400' : 'bg-slate-300'}`}
+              style={{ height: `${Math.max(2, Math.min(100, peak * 100))}%` }}
+            />
+          ))}
+        </div>
+        {removed.map((r, i) => (
+          <div key={i} className="absolute inset-y-0 bg-slate-900/20 pointer-events-none" style={{ left: percent(r.start), width: percent(r.end - r.start) }} />
+        ))}
+        {selection && (
+          <div className="absolute inset-y-0 bg-orange-400/30 border-x-2 border-orange-500 pointer-events-none" style={{ left: percent(selection.start), width: percent(selection.end - selection.start) }} />
+        )}
+        {[edit.start, edit.end].map((time, i) => (
+          <div key={i} className="absolute inset-y-0 w-1.5 -ml-[3px] bg-orange-500 rounded-full pointer-events-none" style={{ left: percent(time) }} />
+        ))}
+        {playhead !== null && (
+          <div className="absolute inset-y-0 w-0.5 bg-red-500 pointer-events-none" style={{ left: percent(playhead) }} />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={togglePreview} className="px-3 py-2 bg-blue-50 text-blue-600 rounded-xl font-black text-xs flex items-center gap-1 hover:bg-blue-100">
+          {playhead !== null ? <><Square size={14} /> Dừng</> : <><Play size={14} /> Nghe bản sửa</>}
+        </button>
+        <button onClick={keepSelection} disabled={!selection} className="px-3 py-2 bg-emerald-50 text-emerald-600 rounded-xl font-black text-xs flex items-center gap-1 hover:bg-emerald-100 disabled:opacity-40"><Crop size={14} /> Giữ đoạn chọn</button>
+        <button onClick={cutSelection} disabled={!selection} className="px-3 py-2 bg-red-50 text-red-500 rounded-xl font-black text-xs flex items-center gap-1 hover:bg-red-100 disabled:opacity-40"><Scissors size={14} /> Cắt đoạn chọn</button>
+        <button onClick={() => commit(uneditedRecording(duration))} disabled={!isEdited(edit, duration)} className="px-3 py-2 bg-slate-100 text-slate-500 rounded-xl font-black text-xs flex items-center gap-1 hover:bg-slate-200 disabled:opacity-40"><Undo2 size={14} /> Bỏ sửa</button>
+        <span className="ml-auto text-[10px] font-black text-slate-400">
+          {formatSeconds(editedDuration(edit))} / {formatSeconds(duration)}
+        </span>
+      </div>
+      <p className="text-[10px] font-bold text-slate-400">Kéo hai vạch cam để cắt đầu, cắt đuôi. Kéo trên sóng âm để chọn một đoạn rồi giữ lại hoặc cắt bỏ.</p>
+    </div>
+  );
+};
+
+export default WaveformEditor;
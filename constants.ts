@@ -1,7 +1,8 @@
 
 import { Theme, CEFRLevel } from './types';
+import { CURRICULUM } from './curriculum';
 
-export const CEFR_LEVELS: CEFRLevel[] = ['Starters', 'Movers', 'Flyers', 'A1', 'A2', 'B1', 'B2'];
+export const CEFR_LEVELS: CEFRLevel[] = CURRICULUM.map(l => l.id);
 
 export const PREDEFINED_THEMES: Theme[] = [
   { id: '1', label: 'My Family', icon: '👨‍👩‍👧‍👦', description: 'Introduce your family members.' },
@@ -23,3 +24,6 @@ export const PREDEFINED_THEMES: Theme[] = [
   { id: '17', label: 'Playground', icon: '🛝', description: 'Slides and swings.' },
   { id: '18', label: 'Robot World', icon: '🤖', description: 'High-tech friendly robots.' },
 ];
+
+// Sample rate of the 16-bit mono PCM returned by every TTS provider.
+export const TTS_SAMPLE_RATE = 24000;
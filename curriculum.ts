@@ -0,0 +1,216 @@
+import { CEFRLevel, VoicePace } from './types';
+
+// Single description of every level the app teaches. Script generation,
+// evaluation prompts, the level picker, the compliance checker and the
+// poster tool all read from here.
+
+export interface GrammarStructure {
+  name: string;
+  // Recognisable surface form, matched against the script with one sentence
+  // per line: it tells whether the structure shows up, not whether it is used well
+  pattern: RegExp;
+}
+
+export interface CurriculumLevel {
+  id: CEFRLevel;
+  // Short Vietnamese descriptor used in the script prompt, e.g. "Pre-A1"
+  descriptor: string;
+  name: string;
+  wordRange: { min: number; max: number };
+  maxAvgSentenceLength: number;
+  // Cumulative wordlist the script should stay within: YLE, then CEFR (null = open vocabulary)
+  wordlist: 'starters' | 'movers' | 'flyers' | 'a2' | 'b1' | null;
+  // Vietnamese guidance for the script writer
+  scriptFocus: string;
+  grammarFocus: GrammarStructure[];
+  vocabThemes: string[];
+  // Comfortable reading pace for a learner at this level, in words per minute
+  speakingPace: { min: number; max: number };
+  // Default pace of the teacher voice reading the model presentation
+  teacherPace: VoicePace;
+  // What the examiner should expect from a good performance at this level
+  evaluationExpectations: string;
+}
+
+export const CURRICULUM: CurriculumLevel[] = [
+  {
+    id: 'Starters',
+    descriptor: 'Pre-A1',
+    name: 'Cambridge Starters',
+    wordRange: { min: 25, max: 30 },
+    maxAvgSentenceLength: 7,
+    wordlist: 'starters',
+    scriptFocus: 'Cấu trúc: "This is a...", "It has got...", "A ... can ...", "I like/don\'t like...". Từ vựng cụ thể, hữu hình.',
+    grammarFocus: [
+      { name: 'This is a...', pattern: /\bthis is (a|an|my|the)\b/i },
+      { name: 'It has got...', pattern: /\b(has|have)(n't)? got\b/i },
+      { name: 'A ... can ...', pattern: /\bcan('t)?\b/i },
+      { name: "I like / don't like...", pattern: /\bI (don't |do not )?like\b/i },
+    ],
+    vocabThemes: ['animals', 'family', 'colours', 'toys', 'food'],
+    speakingPace: { min: 60, max: 80 },
+    teacherPace: 'slow',
+    evaluationExpectations: 'Short, simple phrases read clearly. Pauses between sentences are normal; clear individual words matter more than linking.',
+  },
+  {
+    id: 'Movers',
+    descriptor: 'early A1',
+    name: 'Cambridge Movers',
+    wordRange: { min: 45, max: 55 },
+    maxAvgSentenceLength: 9,
+    wordlist: 'movers',
+    scriptFocus: 'Mô tả môi trường sống (habitat), thức ăn (food), ngoại hình. Sử dụng thì hiện tại đơn, mô tả thói quen.',
+    grammarFocus: [
+      { name: 'present simple for habits', pattern: /\b(always|usually|often|sometimes|never|every (day|morning|evening|night|week))\b/i },
+      { name: 'There is / There are', pattern: /\bthere (is|are|'s)\b/i },
+      { name: 'describing appearance', pattern: /\b(is|are|has|have|looks?)\b[^\n]*\b(big|small|long|short|tall|fat|thin|curly|soft|beautiful|colou?rful|strong)\b/i },
+    ],
+    vocabThemes: ['habitats', 'food', 'the body', 'weather'],
+    speakingPace: { min: 70, max: 90 },
+    teacherPace: 'slow',
+    evaluationExpectations: 'Simple connected sentences with audible word endings (-s). Some hesitation is acceptable.',
+  },
+  {
+    id: 'Flyers',
+    descriptor: 'A2 Bridge',
+    name: 'Cambridge Flyers',
+    wordRange: { min: 70, max: 90 },
+    maxAvgSentenceLength: 11,
+    wordlist: 'flyers',
+    scriptFocus: 'Sử dụng câu so sánh (faster than, more intelligent than), trạng từ, mô tả hành vi (behaviour).',
+    grammarFocus: [
+      { name: 'comparatives (faster than, more ... than)', pattern: /\b(\w+er|more \w+|less \w+) than\b/i },
+      { name: 'adverbs of manner', pattern: /\b(?!only|family|early|friendly|lovely|ugly|fly|July)\w{3,}ly\b/i },
+      { name: 'describing behaviour', pattern: /\b(always|usually|often|sometimes|never) \w+s\b|\b(likes?|loves?) to \w+|\b(behaves?|hunts?|hides?|climbs?|swims?|sleeps?|plays?|eats?)\b/i },
+    ],
+    vocabThemes: ['animal behaviour', 'places', 'hobbies', 'the environment'],
+    speakingPace: { min: 80, max: 100 },
+    teacherPace: 'normal',
+    evaluationExpectations: 'Mostly fluent reading of short paragraphs, correct stress on longer words, some natural intonation.',
+  },
+  {
+    id: 'A1',
+    descriptor: 'Elementary',
+    name: 'CEFR A1',
+    wordRange: { min: 60, max: 80 },
+    maxAvgSentenceLength: 10,
+    wordlist: 'flyers',
+    scriptFocus: 'Nói về việc chăm sóc (care, feed, clean), thói quen hàng ngày, khu vực rừng/nông thôn.',
+    grammarFocus: [
+      { name: 'present simple', pattern: /\b(always|usually|often|sometimes|never|every (day|morning|evening|week))\b|\b(I|we|you|they) (like|love|live|eat|play|go|have|feed|clean|give|take|walk|wash)\b/i },
+      { name: 'present continuous', pattern: /\b(am|is|are|'m|'re) \w+ing\b/i },
+      { name: 'imperatives for care routines', pattern: /^(please |don't |always |never )?(feed|give|clean|wash|brush|take|put|let's|remember|look|keep|check|walk|play|help|make)\b/im },
+    ],
+    vocabThemes: ['pet care', 'daily routines', 'countryside and forest'],
+    speakingPace: { min: 75, max: 95 },
+    teacherPace: 'normal',
+    evaluationExpectations: 'Clear simple sentences about familiar topics; pronunciation intelligible with some first-language influence.',
+  },
+  {
+    id: 'A2',
+    descriptor: 'Pre-Intermediate',
+    name: 'CEFR A2',
+    wordRange: { min: 90, max: 120 },
+    maxAvgSentenceLength: 13,
+    wordlist: 'a2',
+    scriptFocus: 'Nói về nguyên nhân/hậu quả: endangered, habitat loss, climate change, deforestation.',
+    grammarFocus: [
+      { name: 'past simple', pattern: /\b(was|were|did|had|went|saw|made|came|took|\w{3,}ed)\b/i },
+      { name: 'because / so for cause and effect', pattern: /\b(because|so)\b/i },
+      { name: 'going to for plans', pattern: /\b(am|is|are|'m|'re|'s) going to\b/i },
+    ],
+    vocabThemes: ['endangered animals', 'habitat loss', 'climate change', 'deforestation'],
+    speakingPace: { min: 90, max: 110 },
+    teacherPace: 'normal',
+    evaluationExpectations: 'Linked sentences with connectors read smoothly; sentence stress and falling intonation at sentence ends.',
+  },
+  {
+    id: 'B1',
+    descriptor: 'Intermediate',
+    name: 'CEFR B1',
+    wordRange: { min: 120, max: 160 },
+    maxAvgSentenceLength: 16,
+    wordlist: 'b1',
+    scriptFocus: 'Sử dụng câu bị động, cấu trúc cause-effect phức tạp, từ vựng chuyên môn về bảo tồn (biodiversity, ecological balance).',
+    grammarFocus: [
+      { name: 'passive voice', pattern: /\b(is|are|was|were|be|been|being) (\w{2,}ed|broken|chosen|driven|eaten|fallen|forgotten|given|grown|hidden|known|seen|shown|spoken|stolen|taken|thrown|written|made|built|found|kept|lost|caught|held|sold|cut|done|taught|brought|bought)\b/i },
+      { name: 'complex cause-effect structures', pattern: /\b(as a result|therefore|consequently|due to|because of|leads? to|led to|which means|so that|caused by)\b/i },
+      { name: 'relative clauses', pattern: /\w,? (who|which|whose)\b/i },
+    ],
+    vocabThemes: ['conservation', 'biodiversity', 'ecological balance'],
+    speakingPace: { min: 100, max: 120 },
+    teacherPace: 'normal',
+    evaluationExpectations: 'Fluent delivery of longer paragraphs, accurate topic vocabulary, intonation that signals new points.',
+  },
+  {
+    id: 'B2',
+    descriptor: 'Upper-Intermediate',
+    name: 'CEFR B2',
+    wordRange: { min: 160, max: 220 },
+    maxAvgSentenceLength: 20,
+    wordlist: null,
+    scriptFocus: 'Phân tích, đánh giá, lập luận. Cấu trúc phức tạp như "Not only... but also", "Unless...", "From an ethical perspective".',
+    grammarFocus: [
+      { name: 'Not only... but also', pattern: /\bnot only\b[^\n]*\bbut\b/i },
+      { name: 'Unless...', pattern: /\bunless\b/i },
+      { name: 'From an ethical perspective', pattern: /\bfrom an? \w+ (perspective|point of view)\b/i },
+      { name: 'conditionals', pattern: /\bif\b[^\n]*\b(will|would|could|might)\b/i },
+    ],
+    vocabThemes: ['analysis and evaluation', 'ethics', 'global issues'],
+    speakingPace: { min: 110, max: 130 },
+    teacherPace: 'lively',
+    evaluationExpectations: 'Natural, confident delivery of an argument; chunking into thought groups and varied intonation for emphasis.',
+  },
+  {
+    id: 'C1',
+    descriptor: 'Advanced',
+    name: 'CEFR C1',
+    wordRange: { min: 200, max: 260 },
+    maxAvgSentenceLength: 24,
+    wordlist: null,
+    scriptFocus: 'Lập luận nhiều chiều, dùng cấu trúc rào đón ("It could be argued that..."), câu chẻ ("What matters most is..."), đảo ngữ ("Rarely do we...").',
+    grammarFocus: [
+      { name: 'hedging (It could be argued that...)', pattern: /\b(it (could|can|may|might) be (argued|said)|arguably|it (seems|appears) that|to some extent|it is (widely )?(believed|thought|argued))\b/i },
+      { name: 'cleft sentences (What matters most is...)', pattern: /^what\b[^\n]*\b(is|was)\b|\bit (is|was) \w+ (that|who)\b/im },
+      { name: 'inversion (Rarely do we...)', pattern: /^(rarely|seldom|never|little|hardly|no sooner|not only|only (when|then|by|after|if)|under no circumstances) (do|does|did|is|are|was|were|have|has|had|can|could|will|would|should)\b/im },
+    ],
+    vocabThemes: ['technology and society', 'ethics', 'sustainability'],
+    speakingPace: { min: 120, max: 140 },
+    teacherPace: 'lively',
+    evaluationExpectations: 'Near-effortless reading of complex sentences, precise stress on key words, intonation used to persuade.',
+  },
+  {
+    id: 'C2',
+    descriptor: 'Proficiency',
+    name: 'CEFR C2',
+    wordRange: { min: 240, max: 320 },
+    maxAvgSentenceLength: 28,
+    wordlist: null,
+    scriptFocus: 'Diễn đạt tinh tế, thành ngữ tự nhiên, đa dạng cấu trúc phức (mệnh đề phân từ, giả định "Were it not for..."), kết luận có chiều sâu.',
+    grammarFocus: [
+      { name: 'participle clauses', pattern: /^(having \w+|\w+ing|\w{3,}ed)\b[^,\n]*,/im },
+      { name: 'subjunctive and inverted conditionals (Were it not for...)', pattern: /\b(were it not for|had (I|we|they|he|she|it|\w+) (known|been|\w+ed)|were (I|we|they|he|she|it) to|if (I|he|she|it) were)\b|\b(essential|vital|crucial|important) that \w+ be\b/i },
+      { name: 'idiomatic expressions', pattern: /\b(the tip of the iceberg|a double-edged sword|in the long run|at stake|food for thought|a matter of time|hit the nail on the head|the bottom line|a drop in the ocean|turn a blind eye|at the end of the day|the elephant in the room|a far cry from|come to terms with|in the same boat|go hand in hand|pave the way|stand the test of time|by and large|par for the course)\b/i },
+    ],
+    vocabThemes: ['abstract ideas', 'culture and identity', 'philosophy of science'],
+    speakingPace: { min: 130, max: 150 },
+    teacherPace: 'lively',
+    evaluationExpectations: 'Native-like rhythm and connected speech, subtle intonation for nuance, no noticeable hesitation.',
+  },
+];
+
+export const CURRICULUM_BY_LEVEL = Object.fromEntries(CURRICULUM.map(l => [l.id, l])) as Record<CEFRLevel, CurriculumLevel>;
+
+export const getCurriculumLevel = (level: CEFRLevel): CurriculumLevel => CURRICULUM_BY_LEVEL[level];
+
+/** The "CHUẨN ĐẦU RA" line of the script prompts. */
+export const buildScriptInstruction = (level: CEFRLevel): string => {
+  const l = getCurriculumLevel(level);
+  return `Trình độ ${l.descriptor}: ${l.wordRange.min}-${l.wordRange.max} từ. ${l.scriptFocus}`;
+};
+
+/** English summary of a level for prompts written in English (examiner, poster tool). */
+export const describeLevelInEnglish = (level: CEFRLevel): string => {
+  const l = getCurriculumLevel(level);
+  return `${l.id} (${l.name}, ${l.descriptor}): ${l.wordRange.min}-${l.wordRange.max} words; grammar: ${l.grammarFocus.map(g => g.name).join(', ')}; vocabulary themes: ${l.vocabThemes.join(', ')}.`;
+};
@@ -0,0 +1,16 @@
+
+// =============================================
+// CANCELLATION HELPERS
+// =============================================
+
+export const isAbortError = (err: unknown): boolean =>
+  (err as { name?: string } | null)?.name === 'AbortError';
+
+/** setTimeout as a promise that rejects straight away when the signal aborts. */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AIError, classifyError } from './aiErrors';
+
+describe('classifyError', () => {
+  it('keeps errors that are already classified', () => {
+    const error = new AIError('budget', 'spent');
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it('recognises quota errors and the suggested wait', () => {
+    const error = classifyError({ status: 429, message: 'RESOURCE_EXHAUSTED. Please retry in 27.5s.' });
+    expect(error.kind).toBe('quota');
+    expect(error.action).toBe('wait-retry');
+    expect(error.retry).toBe('backoff');
+    expect(error.waitSeconds).toBe(28);
+  });
+
+  it('recognises invalid keys', () => {
+    expect(classifyError({ status: 400, message: 'API key not valid. Please pass a valid API key.' }).kind).toBe('invalid-key');
+    expect(classifyError({ status: 403, message: 'PERMISSION_DENIED' }).retry).toBe('next-key');
+  });
+
+  it('recognises network failures', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('offline');
+  });
+
+  it('recognises blocked content', () => {
+    const error = classifyError(new Error('Response was blocked due to SAFETY'));
+    expect(error.kind).toBe('safety');
+    expect(error.retry).toBe('stop');
+  });
+
+  it('recognises audio the model cannot take', () => {
+    expect(classifyError({ status: 400, message: 'Unsupported MIME type: audio/x-foo' }).action).toBe('re-record');
+  });
+
+  it('treats broken JSON as malformed output', () => {
+    let thrown: unknown;
+    try {
+      JSON.parse('{oops');
+    } catch (err) {
+      thrown = err;
+    }
+    expect(classifyError(thrown).kind).toBe('malformed-output');
+  });
+
+  it('falls back to unknown, keeping the original message as detail', () => {
+    const error = classifyError('something odd');
+    expect(error.kind).toBe('unknown');
+    expect(error.detail).toBe('something odd');
+    expect(error.action).toBe('retry');
+  });
+
+  it('points a cassette replay miss to the settings', () => {
+    const error = new AIError('cassette-miss', 'no cassette entry');
+    expect(error.action).toBe('open-settings');
+    expect(error.retry).toBe('stop');
+  });
+});
@@ -0,0 +1,154 @@
+// =============================================
+// AI ERROR TAXONOMY
+// Every failure of an AI call ends up as one AIError kind. The kind decides
+// what the child is told, which button the error screen offers and whether
+// callWithRetry should try again.
+// =============================================
+
+export type AIErrorKind =
+  | 'missing-key'
+  | 'key-locked'
+  | 'invalid-key'
+  | 'quota'
+  | 'timeout'
+  | 'safety'
+  | 'malformed-output'
+  | 'offline'
+  | 'unsupported-audio'
+  | 'budget'
+  | 'cassette-miss'
+  | 'unknown';
+
+// The button the error screen leads with
+export type ErrorAction = 'open-settings' | 'unlock' | 'retry' | 'wait-retry' | 're-record';
+
+// What callWithRetry does next: same model after a pause, next key, next model, or give up
+export type RetryPolicy = 'backoff' | 'next-key' | 'next-model' | 'stop';
+
+interface ErrorPolicy {
+  message: string;
+  action: ErrorAction;
+  retry: RetryPolicy;
+}
+
+const POLICIES: Record<AIErrorKind, ErrorPolicy> = {
+  'missing-key': {
+    message: '🔑 Chưa có API Key. Bé nhờ bố mẹ hoặc thầy cô nhấn nút ⚙️ Settings để nhập key nhé!',
+    action: 'open-settings',
+    retry: 'stop',
+  },
+  'key-locked': {
+    message: '🔒 API Key đang được khoá. Bé nhờ thầy cô nhập mật khẩu để mở khoá nhé!',
+    action: 'unlock',
+    retry: 'stop',
+  },
+  'invalid-key': {
+    message: '🔑 API Key không đúng hoặc đã bị khoá. Bé nhờ người lớn kiểm tra lại key trong ⚙️ Settings nhé!',
+    action: 'open-settings',
+    retry: 'next-key',
+  },
+  quota: {
+    message: '😮‍💨 AI đang bận vì có quá nhiều bạn cùng học. Bé chờ một chút rồi thử lại nhé!',
+    action: 'wait-retry',
+    retry: 'backoff',
+  },
+  timeout: {
+    message: '⏱️ AI trả lời lâu quá. Bé hãy thử lại nhé!',
+    action: 'retry',
+    retry: 'next-model',
+  },
+  safety: {
+    message: '🙈 AI không thể làm bài với nội dung này. Bé hãy chọn chủ đề hoặc bức ảnh khác nhé!',
+    action: 'retry',
+    retry: 'stop',
+  },
+  'malformed-output': {
+    message: '📝 AI trả lời bị lỗi định dạng. Bé hãy nhấn "Thử lại" nhé!',
+    action: 'retry',
+    retry: 'next-model',
+  },
+  offline: {
+    message: '📡 Mất kết nối Internet rồi. Bé kiểm tra Wi-Fi rồi thử lại nhé!',
+    action: 'retry',
+    retry: 'stop',
+  },
+  'unsupported-audio': {
+    message: '🎙️ AI không nghe được bản ghi âm này. Bé hãy ghi âm lại nhé!',
+    action: 're-record',
+    retry: 'stop',
+  },
+  budget: {
+    message: '💰 Hôm nay đã dùng hết ngân sách AI. Bé hãy quay lại vào ngày mai, hoặc nhờ thầy cô tăng ngân sách trong ⚙️ Settings nhé!',
+    action: 'open-settings',
+    retry: 'stop',
+  },
+  'cassette-miss': {
+    message: '📼 Chưa có bản ghi sẵn cho bước này. Thầy cô hãy tắt chế độ phát lại (replay) hoặc ghi (record) lại tình huống này trong ⚙️ Settings nhé!',
+    action: 'open-settings',
+    retry: 'stop',
+  },
+  unknown: {
+    message: '😥 AI gặp sự cố. Bé hãy thử lại nhé!',
+    action: 'retry',
+    retry: 'next-model',
+  },
+};
+
+// Seconds the error screen makes the child wait before a 'wait-retry'
+const DEFAULT_WAIT_SECONDS = 30;
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  action: ErrorAction;
+  retry: RetryPolicy;
+  // Technical detail for grown-ups, shown in small print
+  detail?: string;
+  waitSeconds?: number;
+
+  constructor(kind: AIErrorKind, detail?: string, message?: string) {
+    const policy = POLICIES[kind];
+    super(message || policy.message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.action = policy.action;
+    this.retry = policy.retry;
+    this.detail = detail;
+    if (policy.action === 'wait-retry') this.waitSeconds = DEFAULT_WAIT_SECONDS;
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/** Maps whatever an SDK, fetch or our own code threw onto an AIError kind. */
+export function classifyError(err: unknown): AIError {
+  if (err instanceof AIError) return err;
+
+  const e = err as { status?: number; message?: string; name?: string } | null;
+  const message = e?.message || (typeof err === 'string' ? err : JSON.stringify(err)) || '';
+  const text = message.toLowerCase();
+  const status = e?.status;
+
+  if (isOffline() || (e?.name === 'TypeError' && /failed to fetch|network|load failed/.test(text))) {
+    return new AIError('offline', message);
+  }
+  if (status === 429 || text.includes('quota') || text.includes('resource_exhausted')) {
+    const error = new AIError('quota', message);
+    // Gemini says how long to back off: "Please retry in 27.5s"
+    const retryIn = /retry in ([\d.]+)s/.exec(text);
+    if (retryIn) error.waitSeconds = Math.ceil(parseFloat(retryIn[1]));
+    return error;
+  }
+  if (status === 401 || status === 403 || text.includes('api key not valid') || text.includes('api_key_invalid') || text.includes('permission_denied')) {
+    return new AIError('invalid-key', message);
+  }
+  if (/safety|prohibited_content|blocklist|blocked/.test(text)) {
+    return new AIError('safety', message);
+  }
+  if (status === 400 && /mime|audio|unsupported/.test(text)) {
+    return new AIError('unsupported-audio', message);
+  }
+  if (e?.name === 'SyntaxError') {
+    return new AIError('malformed-output', message);
+  }
+  return new AIError('unknown', message);
+}
@@ -0,0 +1,130 @@
+import { CEFRLevel, FluencyMetrics, PresentationDraft } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { withCassette } from "./cassette";
+
+// =============================================
+// PROVIDER CONTRACT
+// =============================================
+
+export type AIProviderId = 'gemini' | 'mock';
+
+// Token counts of one answer, tagged with the model that was billed for it
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderCallContext {
+  model: string;
+  apiKey: string;
+  // Aborted when the user cancels or the attempt times out
+  signal?: AbortSignal;
+  // Called with the token counts of every answer the provider receives
+  onUsage?: (usage: TokenUsage) => void;
+  // Called with the prompt text as it goes to the model, so the cassette can keep it
+  onPrompt?: (prompt: string) => void;
+}
+
+export interface ThemeScriptRequest {
+  imagePrompt: string;
+  userText: string;
+  level: CEFRLevel;
+  childName: string;
+  themeLabel: string;
+}
+
+export interface ImageScriptRequest {
+  imageBase64: string;
+  imageMimeType: string;
+  level: CEFRLevel;
+  childName: string;
+}
+
+export interface ScriptRevisionRequest {
+  draft: PresentationDraft;
+  level: CEFRLevel;
+  instructions: string[];
+}
+
+export interface SpeechRequest {
+  text: string;
+  // Prebuilt voice of the TTS model, e.g. "Kore"
+  voiceName: string;
+  // How to read the text: pace and style, e.g. "Read slowly and clearly"
+  instruction?: string;
+}
+
+// A recording handed to the provider's file store, referenced instead of inlined
+export interface UploadedAudio {
+  uri: string;
+  mimeType: string;
+  // Hash of the audio bytes, set by the cassette so replays match whatever the URI
+  contentHash?: string;
+}
+
+export interface AudioUploadRequest {
+  audio: Blob;
+  // Share of the bytes sent so far, 0..1
+  onProgress?: (fraction: number) => void;
+}
+
+export interface EvaluationRequest {
+  originalScript: string;
+  // The audio, either inline or as an uploaded file
+  audioBase64?: string;
+  audioFile?: UploadedAudio;
+  audioMimeType: string;
+  level: CEFRLevel;
+  // Measured from the recording, passed to the examiner as evidence
+  metrics?: FluencyMetrics;
+}
+
+// Receives the whole answer text received so far while a script streams in
+export type ChunkListener = (textSoFar: string) => void;
+
+/**
+ * A backend that can run every AI task of the app.
+ * Script and evaluation tasks return the raw JSON text of the model answer,
+ * speech returns 16-bit mono PCM at TTS_SAMPLE_RATE — parsing and decoding
+ * stay in geminiService so every provider is handled the same way.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  generateImagePrompt(ctx: ProviderCallContext, theme: string): Promise<string>;
+  generatePresentationScript(ctx: ProviderCallContext, req: ThemeScriptRequest, onChunk?: ChunkListener): Promise<string>;
+  generateScriptFromImage(ctx: ProviderCallContext, req: ImageScriptRequest, onChunk?: ChunkListener): Promise<string>;
+  reviseScript(ctx: ProviderCallContext, req: ScriptRevisionRequest): Promise<string>;
+  generateSpeech(ctx: ProviderCallContext, req: SpeechRequest): Promise<Uint8Array>;
+  // Uploaded files belong to the key that uploaded them, so evaluate with the same ctx.apiKey
+  uploadAudio(ctx: ProviderCallContext, req: AudioUploadRequest): Promise<UploadedAudio>;
+  // Lets go of an upload after the evaluation; left out where files expire on their own
+  releaseAudio?(file: UploadedAudio): void;
+  evaluatePresentation(ctx: ProviderCallContext, req: EvaluationRequest): Promise<string>;
+}
+
+// =============================================
+// PROVIDER REGISTRY
+// =============================================
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export function getProviderId(): AIProviderId {
+  const stored = localStorage.getItem('ai_provider');
+  return stored === 'mock' ? 'mock' : 'gemini';
+}
+
+export function setProviderId(id: AIProviderId) {
+  localStorage.setItem('ai_provider', id);
+}
+
+/** The active provider, wrapped by the record/replay cassette when it is on. */
+export function getProvider(): AIProvider {
+  return withCassette(AI_PROVIDERS[getProviderId()]);
+}
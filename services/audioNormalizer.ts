@@ -0,0 +1,93 @@
+import { decodeRecording, encodeWav } from "./audioUtils";
+import { detectSpeechSegments, frameLevels } from "./speechAlignment";
+import { MIN_SPEECH_SECONDS, SPEECH_RMS_FLOOR } from "./voiceActivity";
+import { AIError } from "./aiErrors";
+
+// =============================================
+// RECORDING NORMALIZATION BEFORE UPLOAD
+// Whatever the browser recorded (webm, ogg, mp4) is re-encoded as 16 kHz
+// mono WAV, leveled to a steady loudness, and trimmed of the silence
+// before and after the child speaks. Smaller uploads, one format for
+// every browser, and the same loudness for every evaluation.
+// =============================================
+
+export const UPLOAD_SAMPLE_RATE = 16000;
+
+// Loudness of the speech after leveling, as RMS (about -20 dBFS)
+const TARGET_SPEECH_RMS = 0.1;
+const MAX_PEAK = 0.95;
+// Quiet recordings are lifted at most this much, so room noise does not take over
+const MAX_GAIN = 10;
+// Silence kept around the speech, so the first and last words are not clipped
+const LEAD_IN_SECONDS = 0.2;
+const TAIL_SECONDS = 0.3;
+
+/** Mixes down to mono and resamples to the upload rate. */
+async function resample(buffer: AudioBuffer): Promise<AudioBuffer> {
+  const frames = Math.max(1, Math.ceil(buffer.duration * UPLOAD_SAMPLE_RATE));
+  const offline = new OfflineAudioContext(1, frames, UPLOAD_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0);
+  return offline.startRendering();
+}
+
+/** The samples between the first and last stretch of speech, with a little silence kept around them. */
+function trimSilence(buffer: AudioBuffer): Float32Array {
+  const samples = buffer.getChannelData(0);
+  const segments = detectSpeechSegments(buffer);
+  if (segments.length === 0) return samples;
+  const start = Math.max(0, Math.floor((segments[0].start - LEAD_IN_SECONDS) * buffer.sampleRate));
+  const end = Math.min(samples.length, Math.ceil((segments[segments.length - 1].end + TAIL_SECONDS) * buffer.sampleRate));
+  return samples.slice(start, end);
+}
+
+/** Seconds of the recording loud enough to be speech at all. */
+function speechSeconds(buffer: AudioBuffer): number {
+  const frameSeconds = 0.02;
+  return frameLevels(buffer, frameSeconds).filter(level => level >= SPEECH_RMS_FLOOR).length * frameSeconds;
+}
+
+/** Gain that brings the speech to the target loudness without clipping the peaks. */
+function levelingGain(buffer: AudioBuffer, samples: Float32Array): number {
+  const levels = frameLevels(buffer).filter(level => level > 0);
+  if (levels.length === 0) return 1;
+  // The louder half of the frames stands for the speech
+  const sorted = [...levels].sort((a, b) => a - b);
+  const speech = sorted.slice(Math.floor(sorted.length / 2));
+  const speechRms = Math.sqrt(speech.reduce((sum, level) => sum + level * level, 0) / speech.length);
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (!speechRms || !peak) return 1;
+  return Math.min(TARGET_SPEECH_RMS / speechRms, MAX_PEAK / peak, MAX_GAIN);
+}
+
+/**
+ * The recording as it should be uploaded for evaluation. Falls back to the
+ * original blob when the browser cannot decode its own recording, and
+ * throws when there is no speech in it to evaluate.
+ */
+export async function normalizeRecording(blob: Blob): Promise<Blob> {
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeRecording(blob);
+  } catch (err) {
+    console.warn('[SpeakPro] Could not decode recording, uploading it unchanged:', err);
+    return blob;
+  }
+
+  const mono = await resample(decoded);
+  // Leveling would blow room noise up to speech loudness, so an empty take stops here
+  if (speechSeconds(mono) < MIN_SPEECH_SECONDS) {
+    throw new AIError('unsupported-audio', 'silent recording', '🔇 Cô chưa nghe thấy bé nói gì. Bé ghi âm lại và nói to hơn nhé!');
+  }
+  const samples = trimSilence(mono);
+  const gain = levelingGain(mono, samples);
+  const leveled = samples.map(s => s * gain);
+  const wav = encodeWav(leveled, UPLOAD_SAMPLE_RATE);
+
+  console.log(`[SpeakPro] Normalized recording: ${blob.type || 'unknown'} ${(blob.size / 1024).toFixed(0)} KB → WAV ${(wav.size / 1024).toFixed(0)} KB, ${(leveled.length / UPLOAD_SAMPLE_RATE).toFixed(1)} s, gain ×${gain.toFixed(2)}`);
+  return wav;
+}
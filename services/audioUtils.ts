@@ -0,0 +1,120 @@
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+}
+
+export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+  }
+  return buffer;
+}
+
+export function encode(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+/**
+ * Estimated start time (in seconds) of each word when the words are spoken
+ * over `duration`. Longer words take longer, and punctuation adds a short pause.
+ */
+export function estimateWordStarts(words: string[], duration: number): number[] {
+  const weights = words.map(w => w.replace(/[^\p{L}\p{N}]/gu, '').length + 1 + (/[,.!?;:]["')\]]*$/.test(w) ? 2 : 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  let elapsed = 0;
+  return weights.map(weight => {
+    const start = elapsed;
+    elapsed += (weight / total) * duration;
+    return start;
+  });
+}
+
+/** Base64 payload of a blob, without the data-URL prefix. */
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Bytes per second of the uploads: normalized 16 kHz 16-bit WAV, or the recorder's 128 kbps
+const UPLOAD_BYTE_RATES: Record<string, number> = { 'audio/wav': 32000 };
+const COMPRESSED_BYTE_RATE = 16000;
+
+/** Rough length of an upload from its size, without decoding it. */
+export const estimateAudioSeconds = (bytes: number, mimeType: string) =>
+  bytes / (UPLOAD_BYTE_RATES[mimeType] || COMPRESSED_BYTE_RATE);
+
+/** File extension for a recording of this MIME type. */
+export function recordingExtension(mimeType: string): string {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('mp4') || mimeType.includes('aac')) return 'm4a';
+  if (mimeType.includes('ogg')) return 'ogg';
+  return 'webm';
+}
+
+/** Decodes a recording in whatever format the browser's MediaRecorder produced. */
+export async function decodeRecording(blob: Blob): Promise<AudioBuffer> {
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(await blob.arrayBuffer());
+  } finally {
+    ctx.close().catch(() => { });
+  }
+}
+
+/** A 16-bit PCM mono WAV file of the samples (-1..1). */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const frames = samples.length;
+  const view = new DataView(new ArrayBuffer(44 + frames * 2));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + frames * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);            // fmt chunk size
+  view.setUint16(20, 1, true);             // PCM
+  view.setUint16(22, 1, true);             // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);             // block align
+  view.setUint16(34, 16, true);            // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, frames * 2, true);
+
+  for (let i = 0, offset = 44; i < frames; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+/**
+ * Joins mono buffers (with a short silence between them) into one WAV file
+ * at the sample rate of the first buffer.
+ */
+export function audioBuffersToWav(buffers: AudioBuffer[], gapSeconds = 0.4): Blob {
+  const sampleRate = buffers[0]?.sampleRate ?? 24000;
+  const gapFrames = Math.round(gapSeconds * sampleRate);
+  const samples = new Float32Array(buffers.reduce((sum, b) => sum + b.length, 0) + gapFrames * Math.max(0, buffers.length - 1));
+  let offset = 0;
+  buffers.forEach((buffer, index) => {
+    if (index > 0) offset += gapFrames; // the gap stays zero, i.e. silence
+    samples.set(buffer.getChannelData(0), offset);
+    offset += buffer.length;
+  });
+  return encodeWav(samples, sampleRate);
+}
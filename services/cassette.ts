@@ -0,0 +1,193 @@
+import { AIProvider, AudioUploadRequest, ChunkListener, ProviderCallContext, UploadedAudio } from "./aiProvider";
+import { idbClear, idbCount, idbGet, idbGetAll, idbPut } from "./idb";
+import { decode, encode } from "./audioUtils";
+import { AIError } from "./aiErrors";
+
+// =============================================
+// RECORD / REPLAY CASSETTE
+// "record" saves every provider answer to IndexedDB, "replay" serves them
+// back without any network, so a bad script or evaluation can be
+// reproduced and shared as a fixture file.
+// =============================================
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export type ProviderTask =
+  | 'generateImagePrompt'
+  | 'generatePresentationScript'
+  | 'generateScriptFromImage'
+  | 'reviseScript'
+  | 'generateSpeech'
+  | 'evaluatePresentation';
+
+export interface CassetteEntry {
+  key: string;
+  task: ProviderTask;
+  provider: string;
+  model: string;
+  // Prompt inputs; inline image/audio data is replaced by its hash
+  request: unknown;
+  // The prompt text as the model received it, for debugging prompts
+  prompt?: string;
+  inlineDataHash?: string;
+  text?: string;
+  audioBase64?: string;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  exportedAt: string;
+  entries: CassetteEntry[];
+}
+
+export function getCassetteMode(): CassetteMode {
+  const stored = localStorage.getItem('cassette_mode');
+  return stored === 'record' || stored === 'replay' ? stored : 'off';
+}
+
+export function setCassetteMode(mode: CassetteMode) {
+  localStorage.setItem('cassette_mode', mode);
+}
+
+async function sha256(data: string | ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds the lookup key from the task and its inputs. The model is left out
+ * on purpose: a replay must hit no matter which fallback model answered.
+ */
+async function describeRequest(task: ProviderTask, args: unknown) {
+  let request = args;
+  let inlineDataHash: string | undefined;
+
+  if (args && typeof args === 'object') {
+    const copy: Record<string, unknown> = { ...(args as Record<string, unknown>) };
+    for (const field of Object.keys(copy)) {
+      if (field.endsWith('Base64') && typeof copy[field] === 'string') {
+        inlineDataHash = await sha256(copy[field] as string);
+        copy[field] = `sha256:${inlineDataHash}`;
+      }
+    }
+    // An uploaded file gets a new URI every time; its content is what identifies it
+    const file = copy.audioFile as UploadedAudio | undefined;
+    if (file?.contentHash) {
+      inlineDataHash = file.contentHash;
+      copy.audioFile = `sha256:${file.contentHash}`;
+    }
+    request = copy;
+  }
+
+  const key = `${task}:${await sha256(JSON.stringify(request))}`;
+  return { key, request, inlineDataHash };
+}
+
+function intercept<A, R extends string | Uint8Array>(
+  mode: CassetteMode,
+  provider: AIProvider,
+  task: ProviderTask,
+  call: (ctx: ProviderCallContext, args: A, onChunk?: ChunkListener) => Promise<R>
+) {
+  return async (ctx: ProviderCallContext, args: A, onChunk?: ChunkListener): Promise<R> => {
+    const { key, request, inlineDataHash } = await describeRequest(task, args);
+
+    if (mode === 'replay') {
+      const entry = await idbGet<CassetteEntry>('cassette', key);
+      if (!entry) {
+        throw new AIError('cassette-miss', `no cassette entry for ${task}`);
+      }
+      console.log(`[SpeakPro] Cassette replay: ${task} (recorded with ${entry.model})`);
+      if (entry.audioBase64 !== undefined) return decode(entry.audioBase64) as R;
+      onChunk?.(entry.text ?? '');
+      return (entry.text ?? '') as R;
+    }
+
+    let prompt: string | undefined;
+    const onPrompt = (text: string) => {
+      prompt = text;
+      ctx.onPrompt?.(text);
+    };
+    const result = await call({ ...ctx, onPrompt }, args, onChunk);
+    const entry: CassetteEntry = {
+      key,
+      task,
+      provider: provider.id,
+      model: ctx.model,
+      request,
+      prompt,
+      inlineDataHash,
+      ...(typeof result === 'string' ? { text: result } : { audioBase64: encode(result) }),
+      recordedAt: new Date().toISOString(),
+    };
+    // Recording must never break the lesson itself
+    await idbPut('cassette', key, entry).catch(err => console.warn('[SpeakPro] Cassette record failed:', err));
+    return result;
+  };
+}
+
+/**
+ * Uploads are not recorded: a replay never uploads, and the evaluation
+ * that uses the file is keyed on the audio content instead.
+ */
+function interceptUpload(mode: CassetteMode, provider: AIProvider) {
+  return async (ctx: ProviderCallContext, req: AudioUploadRequest): Promise<UploadedAudio> => {
+    const contentHash = await sha256(await req.audio.arrayBuffer());
+    if (mode === 'replay') {
+      req.onProgress?.(1);
+      return { uri: `cassette:${contentHash}`, mimeType: req.audio.type, contentHash };
+    }
+    return { ...await provider.uploadAudio(ctx, req), contentHash };
+  };
+}
+
+/**
+ * Wraps a provider according to the current cassette mode.
+ * In replay mode no key is needed since nothing leaves the browser.
+ */
+export function withCassette(provider: AIProvider): AIProvider {
+  const mode = getCassetteMode();
+  if (mode === 'off') return provider;
+
+  return {
+    ...provider,
+    requiresApiKey: mode === 'replay' ? false : provider.requiresApiKey,
+    generateImagePrompt: intercept(mode, provider, 'generateImagePrompt', provider.generateImagePrompt),
+    generatePresentationScript: intercept(mode, provider, 'generatePresentationScript', provider.generatePresentationScript),
+    generateScriptFromImage: intercept(mode, provider, 'generateScriptFromImage', provider.generateScriptFromImage),
+    reviseScript: intercept(mode, provider, 'reviseScript', provider.reviseScript),
+    generateSpeech: intercept(mode, provider, 'generateSpeech', provider.generateSpeech),
+    uploadAudio: interceptUpload(mode, provider),
+    evaluatePresentation: intercept(mode, provider, 'evaluatePresentation', provider.evaluatePresentation),
+  };
+}
+
+// =============================================
+// FIXTURE FILES
+// =============================================
+
+export const countCassetteEntries = () => idbCount('cassette');
+
+export const clearCassette = () => idbClear('cassette');
+
+export async function exportCassette(): Promise<Blob> {
+  const file: CassetteFile = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries: await idbGetAll<CassetteEntry>('cassette'),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/** Merges a shared fixture file into the local cassette; returns how many entries were added. */
+export async function importCassette(file: File): Promise<number> {
+  const parsed = JSON.parse(await file.text()) as Partial<CassetteFile>;
+  if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error('File cassette không hợp lệ.');
+  }
+  for (const entry of parsed.entries) {
+    await idbPut('cassette', entry.key, entry);
+  }
+  return parsed.entries.length;
+}
@@ -0,0 +1,48 @@
+// =============================================
+// RECORDING HELPERS
+// Shared by the full-script recorder and the short takes of shadowing
+// practice, which records one sentence at a time from an open mic stream.
+// =============================================
+
+const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+  'audio/aac'
+];
+
+/** The first recording format this browser supports, or '' for the browser default. */
+export const pickRecordingMimeType = (): string =>
+  RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export interface ClipRecording {
+  // Ends the take early; `done` then resolves with what was captured so far
+  stop: () => void;
+  done: Promise<Blob>;
+}
+
+/** Records from the stream until `stop` is called or `maxMs` has passed. */
+export function recordClip(stream: MediaStream, maxMs: number): ClipRecording {
+  const mimeType = pickRecordingMimeType();
+  const recorder = new MediaRecorder(stream, { ...(mimeType ? { mimeType } : {}), audioBitsPerSecond: 128000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data && e.data.size > 0) chunks.push(e.data);
+  };
+
+  const done = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+  });
+
+  let timer: number | null = null;
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  recorder.start(250);
+  timer = window.setTimeout(stop, maxMs);
+  return { stop, done };
+}
@@ -0,0 +1,99 @@
+import { CEFRLevel, FluencyMetrics } from "../types";
+import { getCurriculumLevel } from "../curriculum";
+import { decodeRecording } from "./audioUtils";
+import { splitWords } from "./scriptParser";
+import { detectSpeechSegments } from "./speechAlignment";
+import { medianPitch, toSemitones, trackPitchInSlices } from "./pitchTracker";
+
+// =============================================
+// ACOUSTIC FLUENCY METRICS
+// Speaking rate, pauses and pitch measured from the recording. They are
+// shown to the teacher as they are, and handed to the examiner model as
+// evidence so fluency and intonation scores rest on something stable.
+// =============================================
+
+// A pause at least this long breaks the flow of a sentence
+export const LONG_PAUSE_SECONDS = 1;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/** Pitch range and spread, ignoring the odd octave error at the extremes. */
+async function pitchStats(buffer: AudioBuffer, signal?: AbortSignal): Promise<Pick<FluencyMetrics, 'pitchLowHz' | 'pitchHighHz' | 'pitchRangeSemitones' | 'pitchVariationSemitones'>> {
+  const points = await trackPitchInSlices(buffer, signal);
+  const reference = medianPitch(points);
+  const voiced = points.flatMap(p => p.hz === null ? [] : [p.hz]).sort((a, b) => a - b);
+  // Under a second of voicing says nothing about intonation
+  if (!reference || voiced.length < 50) {
+    return { pitchLowHz: null, pitchHighHz: null, pitchRangeSemitones: null, pitchVariationSemitones: null };
+  }
+  const low = percentile(voiced, 0.05);
+  const high = percentile(voiced, 0.95);
+  const semitones = voiced.map(hz => toSemitones(hz, reference));
+  const spread = Math.sqrt(semitones.reduce((sum, s) => sum + s * s, 0) / semitones.length);
+  return {
+    pitchLowHz: Math.round(low),
+    pitchHighHz: Math.round(high),
+    pitchRangeSemitones: round(toSemitones(high, low)),
+    pitchVariationSemitones: round(spread),
+  };
+}
+
+/** The speaking rate once it is known how many words were actually said. */
+export function withWordCount(metrics: FluencyMetrics, words: number): FluencyMetrics {
+  return {
+    ...metrics,
+    words,
+    wordsPerMinute: metrics.speechSeconds > 0 ? Math.round(words / (metrics.speechSeconds / 60)) : 0,
+  };
+}
+
+/**
+ * Metrics for a reading of the script. Until there is a transcript the
+ * rate assumes the whole script was read. Null when the browser cannot
+ * decode the recording; rejects when the signal is aborted.
+ */
+export async function analyzeFluency(recording: Blob, script: string, level: CEFRLevel, signal?: AbortSignal): Promise<FluencyMetrics | null> {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeRecording(recording);
+  } catch (err) {
+    console.warn('[SpeakPro] Could not decode recording for fluency metrics:', err);
+    return null;
+  }
+
+  const segments = detectSpeechSegments(buffer);
+  const scriptWords = splitWords(script).length;
+  const pace = getCurriculumLevel(level).speakingPace;
+  const expectedSeconds = round(scriptWords / ((pace.min + pace.max) / 2) * 60);
+  const pauses = segments.slice(1).map((segment, i) => segment.start - segments[i].end);
+  const speechSeconds = segments.length ? segments[segments.length - 1].end - segments[0].start : 0;
+
+  const metrics: FluencyMetrics = {
+    speechSeconds: round(speechSeconds),
+    voicedSeconds: round(segments.reduce((sum, s) => sum + (s.end - s.start), 0)),
+    expectedSeconds,
+    words: scriptWords,
+    wordsPerMinute: 0,
+    pauseCount: pauses.length,
+    longPauseCount: pauses.filter(p => p >= LONG_PAUSE_SECONDS).length,
+    meanPauseSeconds: pauses.length ? round(pauses.reduce((sum, p) => sum + p, 0) / pauses.length, 2) : 0,
+    longestPauseSeconds: pauses.length ? round(Math.max(...pauses), 2) : 0,
+    ...await pitchStats(buffer, signal),
+  };
+  return withWordCount(metrics, scriptWords);
+}
+
+/** The metrics as evidence for the examiner prompt. */
+export function describeMetricsForExaminer(metrics: FluencyMetrics, level: CEFRLevel): string {
+  const pace = getCurriculumLevel(level).speakingPace;
+  const pitch = metrics.pitchRangeSemitones === null
+    ? '- Pitch: could not be measured reliably.'
+    : `- Pitch: ${metrics.pitchLowHz}-${metrics.pitchHighHz} Hz, a range of ${metrics.pitchRangeSemitones} semitones; typical movement ±${metrics.pitchVariationSemitones} semitones around the speaker's middle pitch. Under about 4 semitones of range sounds flat and monotone; 8 or more sounds lively.`;
+  return `MEASURED FROM THE RECORDING (objective, computed by signal analysis — you MUST take these into account):
+- Speaking time: ${metrics.speechSeconds} s from first to last word (${metrics.voicedSeconds} s of it voiced). Reading the whole script at a comfortable pace takes about ${metrics.expectedSeconds} s.
+- Speaking rate: about ${metrics.wordsPerMinute} words per minute if the whole script was read (comfortable pace at this level: ${pace.min}-${pace.max}).
+- Pauses: ${metrics.pauseCount} pauses, averaging ${metrics.meanPauseSeconds} s; ${metrics.longPauseCount} of them ${LONG_PAUSE_SECONDS} s or longer; the longest ${metrics.longestPauseSeconds} s.
+${pitch}
+Base the Fluency score on the rate and the pauses, and the Intonation score on the pitch figures, together with what you hear. If your impression disagrees with these measurements, trust the measurements.`;
+}
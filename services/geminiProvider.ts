@@ -0,0 +1,417 @@
+import { GoogleGenAI, Type, Modality, FileState, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AIProvider, AudioUploadRequest, ChunkListener, ProviderCallContext, UploadedAudio } from "./aiProvider";
+import { decode } from "./audioUtils";
+import { AIError } from "./aiErrors";
+import { classifyModel, modelName, ModelInfo } from "./modelCatalog";
+import { buildScriptInstruction, describeLevelInEnglish, getCurriculumLevel } from "../curriculum";
+import { describeMetricsForExaminer } from "./fluencyMetrics";
+import { sleep } from "./abort";
+
+// =============================================
+// PROMPT BUILDING BLOCKS
+// =============================================
+
+const scriptConfig = {
+  responseMimeType: "application/json",
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      intro: { type: Type.STRING },
+      points: { type: Type.ARRAY, items: { type: Type.STRING } },
+      conclusion: { type: Type.STRING },
+      lessonVocab: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            word: { type: Type.STRING },
+            ipa: { type: Type.STRING },
+            translation: { type: Type.STRING },
+            icon: { type: Type.STRING }
+          },
+          required: ["word", "ipa", "translation", "icon"]
+        }
+      }
+    },
+    required: ["intro", "points", "conclusion", "lessonVocab"]
+  }
+};
+
+/** Passes the token counts of an answer on to the usage tracker; thinking tokens are billed as output. */
+function reportUsage(onUsage: ProviderCallContext['onUsage'], model: string, meta?: GenerateContentResponseUsageMetadata) {
+  if (!meta) return;
+  onUsage?.({
+    model,
+    promptTokens: meta.promptTokenCount ?? 0,
+    outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+  });
+}
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/** Gemini answers a blocked prompt with an empty text; turn that into a safety error. */
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new AIError('safety', `prompt blocked: ${blockReason}`);
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new AIError('safety', `answer stopped: ${finishReason}`);
+}
+
+/** The text of a request as the model reads it; attached media show as placeholders. */
+function promptText(contents: unknown): string {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(promptText).filter(Boolean).join('\n');
+  const part = contents as { parts?: unknown[]; text?: string; inlineData?: { mimeType?: string }; fileData?: { mimeType?: string } };
+  if (part.parts) return promptText(part.parts);
+  if (part.text !== undefined) return part.text;
+  if (part.inlineData) return `[inline ${part.inlineData.mimeType}]`;
+  if (part.fileData) return `[file ${part.fileData.mimeType}]`;
+  return '';
+}
+
+/** generateContent, reporting the prompt first. */
+function generate(ai: GoogleGenAI, onPrompt: ProviderCallContext['onPrompt'], params: GenerateContentParameters): Promise<GenerateContentResponse> {
+  onPrompt?.(promptText(params.contents));
+  return ai.models.generateContent(params);
+}
+
+/** Streams an answer, reporting the accumulated text after every chunk. */
+async function streamText(ai: GoogleGenAI, params: GenerateContentParameters, onChunk?: ChunkListener, onUsage?: ProviderCallContext['onUsage'], onPrompt?: ProviderCallContext['onPrompt']): Promise<string> {
+  onPrompt?.(promptText(params.contents));
+  const stream = await ai.models.generateContentStream(params);
+  let text = '';
+  // Every chunk carries the running totals, so only the last one counts
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  for await (const chunk of stream) {
+    assertNotBlocked(chunk);
+    text += chunk.text || '';
+    usage = chunk.usageMetadata ?? usage;
+    onChunk?.(text);
+  }
+  reportUsage(onUsage, params.model, usage);
+  return text;
+}
+
+// =============================================
+// FILES API UPLOAD
+// The SDK uploads in one go without progress, so the resumable protocol is
+// driven by hand: a start request returns an upload URL, and the bytes go
+// there through XMLHttpRequest, which reports how much has been sent.
+// =============================================
+
+const UPLOAD_ENDPOINT = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const FILE_POLL_MS = 1000;
+
+/** An error shaped like the SDK's, so classifyError reads its status. */
+const httpError = (status: number, message: string) => Object.assign(new Error(message || `HTTP ${status}`), { status });
+
+function sendBytes(url: string, audio: Blob, onProgress: AudioUploadRequest['onProgress'], signal?: AbortSignal): Promise<{ file?: { name?: string; uri?: string; mimeType?: string; state?: string } }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.open('POST', url);
+    xhr.setRequestHeader('X-Goog-Upload-Offset', '0');
+    xhr.setRequestHeader('X-Goog-Upload-Command', 'upload, finalize');
+    xhr.upload.onprogress = e => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      if (xhr.status < 200 || xhr.status >= 300) return reject(httpError(xhr.status, xhr.responseText));
+      try {
+        resolve(JSON.parse(xhr.responseText));
+      } catch (err) {
+        reject(err);
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new TypeError('Failed to fetch: upload connection lost'));
+    };
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException('Upload aborted', 'AbortError'));
+    xhr.send(audio);
+  });
+}
+
+async function uploadToFilesApi(apiKey: string, { audio, onProgress }: AudioUploadRequest, signal?: AbortSignal): Promise<UploadedAudio> {
+  const start = await fetch(UPLOAD_ENDPOINT, {
+    method: 'POST',
+    signal,
+    headers: {
+      'x-goog-api-key': apiKey,
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(audio.size),
+      'X-Goog-Upload-Header-Content-Type': audio.type,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: `speakpro-recording-${Date.now()}` } }),
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!start.ok || !uploadUrl) throw httpError(start.status, await start.text());
+
+  const { file } = await sendBytes(uploadUrl, audio, onProgress, signal);
+  if (!file?.name || !file.uri) throw new Error('Gemini Files API did not return the uploaded file.');
+
+  // Audio is usually ready at once, but may need a moment of processing
+  const ai = new GoogleGenAI({ apiKey });
+  let state = file.state;
+  while (state === FileState.PROCESSING) {
+    await sleep(FILE_POLL_MS, signal);
+    state = (await ai.files.get({ name: file.name, config: { abortSignal: signal } })).state;
+  }
+  if (state === FileState.FAILED) throw new AIError('unsupported-audio', `file processing failed: ${file.name}`);
+  console.log(`[SpeakPro] Uploaded recording to Files API: ${file.name} (${(audio.size / 1024).toFixed(0)} KB)`);
+  return { uri: file.uri, mimeType: file.mimeType || audio.type };
+}
+
+// =============================================
+// GEMINI PROVIDER
+// =============================================
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  requiresApiKey: true,
+
+  async generateImagePrompt({ model, apiKey, signal, onUsage, onPrompt }, theme) {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await generate(ai, onPrompt, {
+      model,
+      contents: `Tạo một câu lệnh (prompt) tiếng Anh cực kỳ chi tiết cho AI tạo ảnh (DALL-E/Midjourney) với phong cách Pixar 3D. 
+      Chủ đề: ${theme}. 
+      Mô tả ánh sáng cinematic, màu sắc rực rỡ, nhân vật dễ thương, bối cảnh rõ ràng. 
+      Chỉ trả về câu lệnh tiếng Anh.`,
+      config: { abortSignal: signal }
+    });
+    reportUsage(onUsage, model, response.usageMetadata);
+    assertNotBlocked(response);
+    return response.text?.trim() || `A professional cinematic 3D Pixar style illustration of ${theme}, high detail, vibrant colors.`;
+  },
+
+  async generatePresentationScript({ model, apiKey, signal, onUsage, onPrompt }, { imagePrompt, userText, level, childName }, onChunk) {
+    const ai = new GoogleGenAI({ apiKey });
+    return streamText(ai, {
+      model,
+      contents: {
+        parts: [
+          {
+            text: `Bạn là chuyên gia soạn kịch bản thuyết trình tiếng Anh cho trẻ em tại Speakpro Lab. 
+                   Hãy soạn bài nói cho bé "${childName}" trình độ ${level}.
+                   
+                   QUY TẮC CẦN TUÂN THỦ:
+                   1. NỘI DUNG: Miêu tả bức ảnh sau: "${imagePrompt}". 
+                   2. TỪ KHÓA BÉ MUỐN DÙNG: "${userText}".
+                   3. CHUẨN ĐẦU RA (QUAN TRỌNG): 
+                   ${buildScriptInstruction(level)}
+                   
+                   Trả về JSON:
+                   {
+                     "intro": "Mở đầu chuyên nghiệp",
+                     "points": ["Các câu thân bài miêu tả trực tiếp chi tiết trong ảnh"],
+                     "conclusion": "Kết thúc ấn tượng",
+                     "lessonVocab": [{"word": "Từ vựng chính", "ipa": "IPA", "translation": "Nghĩa tiếng Việt", "icon": "Emoji"}]
+                   }` }
+        ]
+      },
+      config: { ...scriptConfig, abortSignal: signal }
+    }, onChunk, onUsage, onPrompt);
+  },
+
+  async generateScriptFromImage({ model, apiKey, signal, onUsage, onPrompt }, { imageBase64, imageMimeType, level, childName }, onChunk) {
+    const ai = new GoogleGenAI({ apiKey });
+    return streamText(ai, {
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: imageMimeType, data: imageBase64 } },
+          {
+            text: `Bạn là chuyên gia soạn kịch bản thuyết trình tiếng Anh cho trẻ em tại Speakpro Lab. 
+                   Hãy nhìn vào bức ảnh này và soạn bài nói cho bé "${childName}" trình độ ${level}.
+                   
+                   QUY TẮC CẦN TUÂN THỦ (QUAN TRỌNG):
+                   1. NẾU ẢNH CÓ CHỨA VĂN BẢN/KỊCH BẢN (ví dụ: khung chữ "Hello everyone...", "Today I will talk about..."): Hãy trích xuất và giữ nguyên nội dung văn bản đó để làm kịch bản. Đừng tự ý thay đổi nội dung nếu nó đã có sẵn trên ảnh.
+                   2. NẾU ẢNH KHÔNG CÓ VĂN BẢN: Hãy miêu tả chi tiết những gì đang diễn ra trong bức ảnh theo trình độ của bé.
+                   3. CHUẨN ĐẦU RA: 
+                   ${buildScriptInstruction(level)}
+                   
+                   Trả về JSON:
+                   {
+                     "intro": "Mở đầu (nếu trích xuất từ ảnh thì lấy phần mở đầu trong ảnh)",
+                     "points": ["Các câu thân bài (nếu trích xuất từ ảnh thì lấy các câu trong ảnh)"],
+                     "conclusion": "Kết thúc (nếu trích xuất từ ảnh thì lấy phần kết thúc trong ảnh)",
+                     "lessonVocab": [{"word": "Từ vựng chính", "ipa": "IPA", "translation": "Nghĩa tiếng Việt", "icon": "Emoji"}]
+                   }` }
+        ]
+      },
+      config: { ...scriptConfig, abortSignal: signal }
+    }, onChunk, onUsage, onPrompt);
+  },
+
+  async reviseScript({ model, apiKey, signal, onUsage, onPrompt }, { draft, level, instructions }) {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await generate(ai, onPrompt, {
+      model,
+      contents: {
+        parts: [
+          {
+            text: `Bạn là chuyên gia soạn kịch bản thuyết trình tiếng Anh cho trẻ em tại Speakpro Lab.
+                   Kịch bản dưới đây (trình độ ${level}) cần chỉnh sửa. Hãy viết lại để sửa các lỗi sau, giữ nguyên chủ đề, giọng văn và cấu trúc intro / points / conclusion:
+                   ${instructions.map((line, i) => `${i + 1}. ${line}`).join('\n                   ')}
+
+                   CHUẨN ĐẦU RA: ${buildScriptInstruction(level)}
+
+                   KỊCH BẢN HIỆN TẠI:
+                   ${JSON.stringify(draft)}
+
+                   Trả về JSON cùng cấu trúc với kịch bản hiện tại.` }
+        ]
+      },
+      config: { ...scriptConfig, abortSignal: signal }
+    });
+    reportUsage(onUsage, model, response.usageMetadata);
+    assertNotBlocked(response);
+    return response.text || '';
+  },
+
+  async generateSpeech({ model, apiKey, signal, onUsage, onPrompt }, { text, voiceName, instruction }) {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await generate(ai, onPrompt, {
+      model,
+      // The TTS models take style directions as a spoken-style prefix before the text
+      contents: [{ parts: [{ text: instruction ? `${instruction}: ${text}` : text }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
+      },
+    });
+    reportUsage(onUsage, model, response.usageMetadata);
+    assertNotBlocked(response);
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error('Gemini TTS không trả về âm thanh.');
+    return decode(base64Audio);
+  },
+
+  uploadAudio({ apiKey, signal }, req) {
+    return uploadToFilesApi(apiKey, req, signal);
+  },
+
+  async evaluatePresentation({ model, apiKey, signal, onUsage, onPrompt }, { originalScript, audioBase64, audioFile, audioMimeType, level, metrics }) {
+    const ai = new GoogleGenAI({ apiKey });
+    const curriculum = getCurriculumLevel(level);
+    const response = await generate(ai, onPrompt, {
+      model,
+      contents: {
+        parts: [
+          audioFile
+            ? { fileData: { fileUri: audioFile.uri, mimeType: audioFile.mimeType } }
+            : { inlineData: { mimeType: audioMimeType, data: audioBase64 } },
+          {
+            text: `You are a certified Cambridge Speaking examiner for young learners. You MUST carefully LISTEN to the audio recording attached. The child is reading a presentation script.
+
+TARGET SCRIPT (what they should have read):
+"${originalScript}"
+
+LEARNER LEVEL: ${describeLevelInEnglish(level)}
+Expected at this level: ${curriculum.evaluationExpectations}
+Comfortable reading pace at this level: ${curriculum.speakingPace.min}-${curriculum.speakingPace.max} words per minute.
+Judge the child against these expectations, not against adult native speakers.
+${metrics ? `\n${describeMetricsForExaminer(metrics, level)}\n` : ''}
+IMPORTANT INSTRUCTIONS:
+1. TRANSCRIBE FIRST: Listen carefully and transcribe EXACTLY what the child actually said in the audio. Pay attention to skipped words, mispronunciations, or hesitations. DO NOT just copy the target script.
+2. COMPARE & EVALUATE: Compare the child's actual speech (the transcript) against the target script word by word.
+3. SCORING RUBRIC (0-10 INTEGER ONLY):
+   - Pronunciation (0-10): Clarity of sounds, word endings (like -s, -ed), and stress.
+   - Fluency (0-10): Smoothness, appropriate pausing, lack of hesitation.
+   - Intonation (0-10): Natural rise and fall of voice, expressing enthusiasm vs robotic reading.
+   - Vocabulary (0-10): Accurate reading of the vocabulary words without stumbling.
+   - Grammar (0-10): Accurate reading of grammatical structures in the text.
+   - Task Fulfillment (0-10): How much of the script was completed? (e.g. read the whole script = 9-10; read half = 5).
+
+4. SCORING RULES:
+   - 9-10: Excellent clear reading, near-native or very natural AI-like.
+   - 7-8: Good, clear attempt with minor pronunciation/fluency issues.
+   - 5-6: Average, noticeable struggles with reading.
+   - 0-4: Poor, incomprehensible or mostly incomplete.
+   - Be objective but encouraging. A good attempt should be rewarded.
+
+5. FEEDBACK (VIETNAMESE): Provide highly encouraging, specific feedback in Vietnamese. Praise their effort first, then gently point out 1-2 areas to improve. All text except the transcript MUST be in Vietnamese.
+
+Return JSON EXACTLY matching this structure:
+{
+  "transcript": "(What the child actually said - English)",
+  "pronunciation": 8,
+  "fluency": 7,
+  "intonation": 7,
+  "vocabulary": 8,
+  "grammar": 8,
+  "taskFulfillment": 9,
+  "feedback": "Detailed feedback in Vietnamese about the child's performance",
+  "teacherPraise": "Encouraging praise in Vietnamese",
+  "mistakes": [{"word": "mispronounced word", "type": "mispronunciation", "feedback": "Specific feedback in Vietnamese"}],
+  "suggestions": ["Suggestion 1 in Vietnamese", "Suggestion 2", "Suggestion 3"]
+}` }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            transcript: { type: Type.STRING },
+            pronunciation: { type: Type.NUMBER },
+            fluency: { type: Type.NUMBER },
+            intonation: { type: Type.NUMBER },
+            vocabulary: { type: Type.NUMBER },
+            grammar: { type: Type.NUMBER },
+            taskFulfillment: { type: Type.NUMBER },
+            feedback: { type: Type.STRING },
+            teacherPraise: { type: Type.STRING },
+            mistakes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  type: { type: Type.STRING },
+                  feedback: { type: Type.STRING }
+                },
+                required: ["word", "type", "feedback"]
+              }
+            },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+          }
+        }
+      }
+    });
+    reportUsage(onUsage, model, response.usageMetadata);
+    assertNotBlocked(response);
+    return response.text || '';
+  },
+};
+
+// =============================================
+// KEY CHECK & MODEL DISCOVERY
+// =============================================
+
+/** Lists the models this key may call, sorted into the kinds of task they can serve. */
+export async function listGeminiModels(apiKey: string, signal?: AbortSignal): Promise<ModelInfo[]> {
+  const ai = new GoogleGenAI({ apiKey });
+  const pager = await ai.models.list({ config: { pageSize: 100, abortSignal: signal } });
+  const models: ModelInfo[] = [];
+  for await (const m of pager) {
+    const id = (m.name || '').replace(/^models\//, '');
+    const kind = classifyModel(id, m.supportedActions);
+    if (kind) models.push({ id, name: m.displayName || modelName(id), kind });
+  }
+  return models;
+}
+
+/** The smallest real request: proves the key still has quota on this model. */
+export async function pingGemini(apiKey: string, model: string, signal?: AbortSignal): Promise<void> {
+  const ai = new GoogleGenAI({ apiKey });
+  await ai.models.generateContent({ model, contents: 'Reply with OK.', config: { abortSignal: signal } });
+}
@@ -1,349 +1,379 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CEFRLevel, EvaluationResult } from "../types";
+import { CEFRLevel, ComplianceReport, EvaluationResult, FluencyMetrics, PresentationDraft } from "../types";
+import { TTS_SAMPLE_RATE } from "../constants";
+import { getProvider, ProviderCallContext, TokenUsage, UploadedAudio } from "./aiProvider";
+import { listGeminiModels, pingGemini } from "./geminiProvider";
+import { blobToBase64, decodeAudioData, estimateAudioSeconds } from "./audioUtils";
+import { getCassetteMode } from "./cassette";
+import { isAbortError, sleep } from "./abort";
+import { composeScript, fillVocabIpa, missingIpaWords, parsePartialScript, parseScriptDraft, PartialScript, splitWords } from "./scriptParser";
+import { withWordCount } from "./fluencyMetrics";
+import { AIError, classifyError } from "./aiErrors";
+import { getModelChain, ModelInfo, ModelTask, setDiscoveredModels } from "./modelCatalog";
+import { analyzeScript, describeViolations } from "./levelCompliance";
+import { ensureWithinBudget, estimateCost, recordUsage, UsageStatus } from "./usageTracker";
+import { isVaultLocked } from "./keyVault";
+import { TeacherVoice } from "./voiceCatalog";
+import { getCachedSpeech, putCachedSpeech } from "./teacherAudioCache";
+import { getApiKeys, markKeyInvalid, markKeyQuotaHit, markKeySuccess, pickApiKey, soonestReadyKey } from "./keyPool";
 
 // =============================================
 // API KEY & MODEL MANAGEMENT
 // =============================================
 
-const FALLBACK_MODELS = [
-  'gemini-3-flash-preview',
-  'gemini-3-pro-preview',
-  'gemini-2.5-flash',
-];
-
+/** The next usable key from the pool; when every key is resting, the one that recovers first. */
 export function getApiKey(): string {
-  const key = localStorage.getItem('gemini_api_key') || '';
+  if (isVaultLocked()) throw new AIError('key-locked');
+  const key = pickApiKey() || soonestReadyKey();
   if (!key) {
-    throw new Error('CHƯA CÓ API KEY: Bé vui lòng nhấn nút ⚙️ Settings để nhập API Key nhé!');
+    // Keys exist but the server rejected every one of them
+    throw getApiKeys().length ? new AIError('invalid-key', 'every key in the pool was rejected') : new AIError('missing-key');
   }
   return key;
 }
 
-export function getSelectedModel(): string {
-  return localStorage.getItem('selected_model') || 'gemini-3-flash-preview';
+/**
+ * Throws the same "missing key" / "key locked" errors as getApiKey() when
+ * the active provider needs a key; offline providers are always ready.
+ */
+export function ensureProviderReady() {
+  if (getProvider().requiresApiKey) getApiKey();
+}
+
+// Which model chain each service function draws from
+const MODEL_TASK_OF = {
+  generateImagePrompt: 'script',
+  generatePresentationScript: 'script',
+  generateScriptFromImage: 'script',
+  enforceLevelCompliance: 'script',
+  completeVocabIpa: 'script',
+  generateTeacherVoice: 'tts',
+  evaluatePresentation: 'evaluation',
+} satisfies Record<string, ModelTask>;
+
+type ServiceTask = keyof typeof MODEL_TASK_OF;
+
+// The daily budget pauses new lessons; a recording already made is still read aloud and graded
+const BUDGETED_TASKS: ServiceTask[] = ['generateImagePrompt', 'generatePresentationScript', 'generateScriptFromImage', 'enforceLevelCompliance', 'completeVocabIpa'];
+
+export interface KeyTestResult {
+  ok: boolean;
+  // Why the key cannot be used right now (invalid, quota, offline...)
+  error?: AIError;
+  models: ModelInfo[];
 }
 
-function getFallbackModels(): string[] {
-  const primary = getSelectedModel();
-  const others = FALLBACK_MODELS.filter(m => m !== primary);
-  return [primary, ...others];
+/**
+ * Checks a key with two cheap calls: listing models proves it is valid and
+ * tells which models it may use, a one-line prompt on the primary script
+ * model proves it still has quota. The result also updates the key's health.
+ */
+export async function testApiKey(apiKey: string): Promise<KeyTestResult> {
+  let models: ModelInfo[] = [];
+  try {
+    models = await listGeminiModels(apiKey);
+    setDiscoveredModels(models);
+    await pingGemini(apiKey, getModelChain('script')[0]);
+    markKeySuccess(apiKey);
+    return { ok: true, models };
+  } catch (err) {
+    const error = classifyError(err);
+    if (error.kind === 'quota') markKeyQuotaHit(apiKey, error.detail || error.message);
+    if (error.kind === 'invalid-key') markKeyInvalid(apiKey, error.detail || error.message);
+    return { ok: false, error, models };
+  }
 }
 
 // =============================================
 // RETRY WITH MODEL FALLBACK
 // =============================================
 
-function withTimeout<T>(promise: Promise<T>, ms: number, label = 'API call'): Promise<T> {
+function withTimeout<T>(promise: Promise<T>, ms: number, label = 'API call', signal?: AbortSignal): Promise<T> {
   return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
     const timer = setTimeout(() => {
-      reject(new Error(`⏱️ ${label} quá thời gian (${Math.round(ms / 1000)}s). Bé hãy thử lại nhé!`));
+      signal?.removeEventListener('abort', onAbort);
+      reject(new AIError('timeout', `${label} timed out after ${Math.round(ms / 1000)}s`));
     }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     promise
-      .then(val => { clearTimeout(timer); resolve(val); })
-      .catch(err => { clearTimeout(timer); reject(err); });
+      .then(val => { clearTimeout(timer); signal?.removeEventListener('abort', onAbort); resolve(val); })
+      .catch(err => { clearTimeout(timer); signal?.removeEventListener('abort', onAbort); reject(err); });
   });
 }
 
+/**
+ * @param task name of the calling service function; picks the model chain and labels the usage log
+ */
 async function callWithRetry<T>(
-  fn: (model: string) => Promise<T>,
+  task: ServiceTask,
+  fn: (ctx: ProviderCallContext) => Promise<T>,
   maxRetriesPerModel = 1,
-  timeoutMs = 60000
+  timeoutMs = 60000,
+  signal?: AbortSignal
 ): Promise<T> {
-  const models = getFallbackModels();
-  let lastError: any;
+  // A replay answers from the cassette whatever the model, so one pass is enough
+  const chain = getModelChain(MODEL_TASK_OF[task]);
+  const models = getCassetteMode() === 'replay' ? chain.slice(0, 1) : chain;
+  const provider = getProvider();
+  let apiKey = provider.requiresApiKey ? getApiKey() : '';
+  // Offline providers and replays cost nothing
+  if (BUDGETED_TASKS.includes(task) && provider.requiresApiKey && getCassetteMode() !== 'replay') await ensureWithinBudget();
+  let lastError: AIError | undefined;
+
+  // Usage of the whole call, fallbacks included, goes into one log record
+  const startedAt = Date.now();
+  const tried: string[] = [];
+  let attempts = 0;
+  let billedModel = '';
+  let promptTokens = 0;
+  let outputTokens = 0;
+  let costUsd = 0;
+  const onUsage = (usage: TokenUsage) => {
+    billedModel = usage.model;
+    promptTokens += usage.promptTokens;
+    outputTokens += usage.outputTokens;
+    costUsd += estimateCost(usage);
+  };
+  const logUsage = (status: UsageStatus, error?: string) => {
+    const model = billedModel || tried[tried.length - 1] || models[0];
+    recordUsage({
+      at: startedAt,
+      task,
+      provider: provider.id,
+      model,
+      fallbacks: tried.filter(m => m !== model),
+      attempts,
+      latencyMs: Date.now() - startedAt,
+      promptTokens,
+      outputTokens,
+      costUsd,
+      status,
+      error,
+    });
+  };
 
   for (const model of models) {
     let delay = 1500;
     for (let attempt = 0; attempt < maxRetriesPerModel; attempt++) {
+      if (signal?.aborted) {
+        logUsage('cancelled');
+        throw signal.reason;
+      }
+      attempts++;
+      if (!tried.includes(model)) tried.push(model);
+
+      // Each attempt gets its own signal so a timed-out request is really stopped
+      const attemptController = new AbortController();
+      const forwardAbort = () => attemptController.abort(signal?.reason);
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+
       try {
         console.log(`[SpeakPro] Trying model: ${model} (attempt ${attempt + 1}/${maxRetriesPerModel})...`);
-        return await withTimeout(fn(model), timeoutMs, `Model ${model}`);
+        const result = await withTimeout(fn({ model, apiKey, signal: attemptController.signal, onUsage }), timeoutMs, `Model ${model}`, signal);
+        logUsage('ok');
+        if (apiKey) markKeySuccess(apiKey);
+        return result;
       } catch (err: any) {
-        lastError = err;
-        const errorStr = (err?.message || JSON.stringify(err) || '').toLowerCase();
-        const isQuotaError = err?.status === 429 || errorStr.includes('quota') || errorStr.includes('resource_exhausted');
-        const isTimeoutError = errorStr.includes('quá thời gian');
-
-        if (isTimeoutError) {
-          console.warn(`[SpeakPro] Model ${model} timed out, trying next model...`);
-          break; // Skip to next model immediately on timeout
+        attemptController.abort();
+        // Cancelled by the user: stop here, no fallback
+        if (signal?.aborted || isAbortError(err)) {
+          logUsage('cancelled');
+          throw signal?.reason ?? err;
+        }
+
+        const error = classifyError(err);
+        lastError = error;
+
+        // Quota and bad keys are per key: mark it and repeat the attempt on the next one
+        if (apiKey && (error.kind === 'quota' || error.kind === 'invalid-key')) {
+          if (error.kind === 'quota') markKeyQuotaHit(apiKey, error.detail || error.message);
+          else markKeyInvalid(apiKey, error.detail || error.message);
+          const nextKey = pickApiKey();
+          if (nextKey) {
+            console.warn(`[SpeakPro] Key …${apiKey.slice(-4)} failed (${error.kind}), switching to key …${nextKey.slice(-4)}`);
+            apiKey = nextKey;
+            attempt--;
+            continue;
+          }
         }
 
-        if (isQuotaError && attempt < maxRetriesPerModel - 1) {
+        // Another model would fail the same way
+        if (error.retry === 'stop' || error.retry === 'next-key') {
+          console.warn(`[SpeakPro] ${task} failed (${error.kind}), not retrying:`, error.detail || error.message);
+          logUsage('error', error.detail || error.message);
+          throw error;
+        }
+
+        if (error.retry === 'backoff' && attempt < maxRetriesPerModel - 1) {
           console.warn(`[SpeakPro] Model ${model} quota hit, retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          await sleep(delay, signal).catch(abortErr => { logUsage('cancelled'); throw abortErr; });
           delay *= 2.5;
           continue;
         }
         // Move to next model
-        console.warn(`[SpeakPro] Model ${model} failed:`, err?.message || err);
+        console.warn(`[SpeakPro] Model ${model} failed (${error.kind}):`, error.detail || error.message);
         break;
+      } finally {
+        signal?.removeEventListener('abort', forwardAbort);
       }
     }
   }
 
-  // All models failed
-  const errMsg = lastError?.message || JSON.stringify(lastError);
-  throw new Error(`TẤT CẢ MODEL ĐỀU LỖI: ${errMsg}\n\nBé hãy kiểm tra API Key hoặc chờ 30 giây rồi thử lại nhé!`);
+  // Every model failed: report the last failure, which decides the advice shown
+  const finalError = lastError ?? new AIError('unknown');
+  logUsage('error', finalError.detail || finalError.message);
+  throw finalError;
 }
 
 // =============================================
 // API FUNCTIONS
 // =============================================
 
-export const generateImagePrompt = async (theme: string): Promise<string> => {
-  return callWithRetry(async (model) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const response = await ai.models.generateContent({
-      model,
-      contents: `Tạo một câu lệnh (prompt) tiếng Anh cực kỳ chi tiết cho AI tạo ảnh (DALL-E/Midjourney) với phong cách Pixar 3D. 
-      Chủ đề: ${theme}. 
-      Mô tả ánh sáng cinematic, màu sắc rực rỡ, nhân vật dễ thương, bối cảnh rõ ràng. 
-      Chỉ trả về câu lệnh tiếng Anh.`
-    });
-    return response.text?.trim() || `A professional cinematic 3D Pixar style illustration of ${theme}, high detail, vibrant colors.`;
-  });
+export const generateImagePrompt = async (theme: string, signal?: AbortSignal): Promise<string> => {
+  return callWithRetry('generateImagePrompt', ctx => getProvider().generateImagePrompt(ctx, theme), 1, 60000, signal);
 };
 
-export const generatePresentationScript = async (imagePrompt: string, userText: string, level: CEFRLevel, childName: string, themeLabel: string): Promise<any> => {
-  return callWithRetry(async (model) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
-    const levelInstructions: Record<string, string> = {
-      'Starters': 'Trình độ Pre-A1: 25-30 từ. Cấu trúc: "This is a...", "It has got...", "A ... can ...", "I like/don\'t like...". Từ vựng cụ thể, hữu hình.',
-      'Movers': 'Trình độ early A1: 45-55 từ. Mô tả môi trường sống (habitat), thức ăn (food), ngoại hình. Sử dụng thì hiện tại đơn, mô tả thói quen.',
-      'Flyers': 'Trình độ A2 Bridge: 70-90 từ. Sử dụng câu so sánh (faster than, more intelligent than), trạng từ, mô tả hành vi (behaviour).',
-      'A1': 'Trình độ Elementary: 60-80 từ. Nói về việc chăm sóc (care, feed, clean), thói quen hàng ngày, khu vực rừng/nông thôn.',
-      'A2': 'Trình độ Pre-Intermediate: 90-120 từ. Nói về nguyên nhân/hậu quả: endangered, habitat loss, climate change, deforestation.',
-      'B1': 'Trình độ Intermediate: 120-160 từ. Sử dụng câu bị động, cấu trúc cause-effect phức tạp, từ vựng chuyên môn về bảo tồn (biodiversity, ecological balance).',
-      'B2': 'Trình độ Upper-Intermediate: 160-220 từ. Phân tích, đánh giá, lập luận. Cấu trúc phức tạp như "Not only... but also", "Unless...", "From an ethical perspective".'
-    };
+// Turns raw streamed text into partial scripts for the UI
+const streamListener = (onPartial?: (partial: PartialScript) => void) =>
+  onPartial ? (textSoFar: string) => onPartial(parsePartialScript(textSoFar)) : undefined;
+
+/**
+ * Vocabulary cards the model left without IPA get one follow-up rewrite
+ * asking only for the transcriptions; its script text is ignored. A card
+ * is a poor reason to lose the script, so cards still without IPA after
+ * that are kept as they are.
+ */
+const completeVocabIpa = async (draft: PresentationDraft, level: CEFRLevel, signal?: AbortSignal): Promise<PresentationDraft> => {
+  const missing = missingIpaWords(draft.lessonVocab);
+  if (!missing.length) return draft;
+
+  let lessonVocab = draft.lessonVocab;
+  try {
+    const revised = await callWithRetry('completeVocabIpa', async (ctx) => {
+      const instructions = [`Fill in the "ipa" field (IPA between slashes) of these lessonVocab words: ${missing.join(', ')}. Change nothing else.`];
+      return parseScriptDraft(await getProvider().reviseScript(ctx, { draft, level, instructions }));
+    }, 1, 60000, signal);
+    lessonVocab = fillVocabIpa(draft.lessonVocab, revised.lessonVocab);
+  } catch (err: any) {
+    if (isAbortError(err)) throw err;
+    console.warn('[SpeakPro] IPA follow-up failed:', err?.message || err);
+  }
+  const stillMissing = missingIpaWords(lessonVocab);
+  if (stillMissing.length) console.warn('[SpeakPro] No IPA for vocabulary, keeping the cards without it:', stillMissing.join(', '));
+  return { ...draft, lessonVocab };
+};
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          {
-            text: `Bạn là chuyên gia soạn kịch bản thuyết trình tiếng Anh cho trẻ em tại Speakpro Lab. 
-                   Hãy soạn bài nói cho bé "${childName}" trình độ ${level}.
-                   
-                   QUY TẮC CẦN TUÂN THỦ:
-                   1. NỘI DUNG: Miêu tả bức ảnh sau: "${imagePrompt}". 
-                   2. TỪ KHÓA BÉ MUỐN DÙNG: "${userText}".
-                   3. CHUẨN ĐẦU RA (QUAN TRỌNG): 
-                   ${levelInstructions[level] || 'Chuẩn CEFR.'}
-                   
-                   Trả về JSON:
-                   {
-                     "intro": "Mở đầu chuyên nghiệp",
-                     "points": ["Các câu thân bài miêu tả trực tiếp chi tiết trong ảnh"],
-                     "conclusion": "Kết thúc ấn tượng",
-                     "lessonVocab": [{"word": "Từ vựng chính", "ipa": "IPA", "translation": "Nghĩa tiếng Việt", "icon": "Emoji"}]
-                   }` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            intro: { type: Type.STRING },
-            points: { type: Type.ARRAY, items: { type: Type.STRING } },
-            conclusion: { type: Type.STRING },
-            lessonVocab: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  word: { type: Type.STRING },
-                  ipa: { type: Type.STRING },
-                  translation: { type: Type.STRING },
-                  icon: { type: Type.STRING }
-                },
-                required: ["word", "ipa", "translation", "icon"]
-              }
-            }
-          },
-          required: ["intro", "points", "conclusion", "lessonVocab"]
-        }
-      }
-    });
+export const generatePresentationScript = async (imagePrompt: string, userText: string, level: CEFRLevel, childName: string, themeLabel: string, onPartial?: (partial: PartialScript) => void, signal?: AbortSignal): Promise<PresentationDraft> => {
+  const draft = await callWithRetry('generatePresentationScript', async (ctx) => {
+    const text = await getProvider().generatePresentationScript(ctx, { imagePrompt, userText, level, childName, themeLabel }, streamListener(onPartial));
+    return parseScriptDraft(text);
+  }, 1, 60000, signal);
+  return completeVocabIpa(draft, level, signal);
+};
 
-    return JSON.parse(response.text || '{"intro":"", "points":[], "conclusion":"", "lessonVocab":[]}');
-  });
+export const generateScriptFromImage = async (imageBase64: string, imageMimeType: string, level: CEFRLevel, childName: string, onPartial?: (partial: PartialScript) => void, signal?: AbortSignal): Promise<PresentationDraft> => {
+  const draft = await callWithRetry('generateScriptFromImage', async (ctx) => {
+    const text = await getProvider().generateScriptFromImage(ctx, { imageBase64, imageMimeType, level, childName }, streamListener(onPartial));
+    return parseScriptDraft(text);
+  }, 1, 60000, signal);
+  return completeVocabIpa(draft, level, signal);
 };
 
-export const generateScriptFromImage = async (imageBase64: string, imageMimeType: string, level: CEFRLevel, childName: string): Promise<any> => {
-  return callWithRetry(async (model) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
-    const levelInstructions: Record<string, string> = {
-      'Starters': 'Trình độ Pre-A1: 25-30 từ. Cấu trúc: "This is a...", "It has got...", "A ... can ...", "I like/don\'t like...". Từ vựng cụ thể, hữu hình.',
-      'Movers': 'Trình độ early A1: 45-55 từ. Mô tả môi trường sống (habitat), thức ăn (food), ngoại hình. Sử dụng thì hiện tại đơn, mô tả thói quen.',
-      'Flyers': 'Trình độ A2 Bridge: 70-90 từ. Sử dụng câu so sánh (faster than, more intelligent than), trạng từ, mô tả hành vi (behaviour).',
-      'A1': 'Trình độ Elementary: 60-80 từ. Nói về việc chăm sóc (care, feed, clean), thói quen hàng ngày, khu vực rừng/nông thôn.',
-      'A2': 'Trình độ Pre-Intermediate: 90-120 từ. Nói về nguyên nhân/hậu quả: endangered, habitat loss, climate change, deforestation.',
-      'B1': 'Trình độ Intermediate: 120-160 từ. Sử dụng câu bị động, cấu trúc cause-effect phức tạp, từ vựng chuyên môn về bảo tồn (biodiversity, ecological balance).',
-      'B2': 'Trình độ Upper-Intermediate: 160-220 từ. Phân tích, đánh giá, lập luận. Cấu trúc phức tạp như "Not only... but also", "Unless...", "From an ethical perspective".'
-    };
+/**
+ * Checks a draft against its level band and, when it is out of band, asks
+ * the model for one rewrite. The rewrite is kept only if it fails fewer checks.
+ */
+export const enforceLevelCompliance = async (draft: PresentationDraft, level: CEFRLevel, exemptWords: string[], signal?: AbortSignal): Promise<{ draft: PresentationDraft; report: ComplianceReport }> => {
+  const report = analyzeScript(composeScript(draft), level, exemptWords);
+  if (report.compliant) return { draft, report };
+
+  try {
+    const revised = await callWithRetry('enforceLevelCompliance', async (ctx) => {
+      const text = await getProvider().reviseScript(ctx, { draft, level, instructions: describeViolations(report) });
+      return parseScriptDraft(text);
+    }, 1, 60000, signal);
+    // New cards from the rewrite are only taken when every one has its IPA
+    const revisedVocab = fillVocabIpa(revised.lessonVocab, draft.lessonVocab);
+    revised.lessonVocab = revisedVocab.length && !missingIpaWords(revisedVocab).length ? revisedVocab : draft.lessonVocab;
+
+    const revisedReport = analyzeScript(composeScript(revised), level, exemptWords);
+    const failures = (r: ComplianceReport) => r.checks.filter(c => !c.ok).length;
+    if (failures(revisedReport) <= failures(report)) {
+      return { draft: revised, report: { ...revisedReport, revised: true } };
+    }
+  } catch (err: any) {
+    if (isAbortError(err)) throw err;
+    console.warn('[SpeakPro] Level rewrite failed, keeping original script:', err?.message || err);
+  }
+  return { draft, report };
+};
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: imageMimeType, data: imageBase64 } },
-          {
-            text: `Bạn là chuyên gia soạn kịch bản thuyết trình tiếng Anh cho trẻ em tại Speakpro Lab. 
-                   Hãy nhìn vào bức ảnh này và soạn bài nói cho bé "${childName}" trình độ ${level}.
-                   
-                   QUY TẮC CẦN TUÂN THỦ (QUAN TRỌNG):
-                   1. NẾU ẢNH CÓ CHỨA VĂN BẢN/KỊCH BẢN (ví dụ: khung chữ "Hello everyone...", "Today I will talk about..."): Hãy trích xuất và giữ nguyên nội dung văn bản đó để làm kịch bản. Đừng tự ý thay đổi nội dung nếu nó đã có sẵn trên ảnh.
-                   2. NẾU ẢNH KHÔNG CÓ VĂN BẢN: Hãy miêu tả chi tiết những gì đang diễn ra trong bức ảnh theo trình độ của bé.
-                   3. CHUẨN ĐẦU RA: 
-                   ${levelInstructions[level] || 'Chuẩn CEFR.'}
-                   
-                   Trả về JSON:
-                   {
-                     "intro": "Mở đầu (nếu trích xuất từ ảnh thì lấy phần mở đầu trong ảnh)",
-                     "points": ["Các câu thân bài (nếu trích xuất từ ảnh thì lấy các câu trong ảnh)"],
-                     "conclusion": "Kết thúc (nếu trích xuất từ ảnh thì lấy phần kết thúc trong ảnh)",
-                     "lessonVocab": [{"word": "Từ vựng chính", "ipa": "IPA", "translation": "Nghĩa tiếng Việt", "icon": "Emoji"}]
-                   }` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            intro: { type: Type.STRING },
-            points: { type: Type.ARRAY, items: { type: Type.STRING } },
-            conclusion: { type: Type.STRING },
-            lessonVocab: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  word: { type: Type.STRING },
-                  ipa: { type: Type.STRING },
-                  translation: { type: Type.STRING },
-                  icon: { type: Type.STRING }
-                },
-                required: ["word", "ipa", "translation", "icon"]
-              }
-            }
-          },
-          required: ["intro", "points", "conclusion", "lessonVocab"]
-        }
-      }
-    });
+// One context only builds the buffers; browsers cap how many may be open at once
+let decodeContext: AudioContext | null = null;
 
-    return JSON.parse(response.text || '{"intro":"", "points":[], "conclusion":"", "lessonVocab":[]}');
-  });
+const decodeSpeech = (pcm: Uint8Array): Promise<AudioBuffer> => {
+  if (!decodeContext) decodeContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: TTS_SAMPLE_RATE });
+  return decodeAudioData(pcm, decodeContext, TTS_SAMPLE_RATE, 1);
 };
 
-export const generateTeacherVoice = async (text: string): Promise<AudioBuffer> => {
-  return callWithRetry(async (_model) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
-      },
-    });
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    return await decodeAudioData(decode(base64Audio!), audioContext, 24000, 1);
-  });
+export const generateTeacherVoice = async (text: string, voice: TeacherVoice, signal?: AbortSignal): Promise<AudioBuffer> => {
+  // Audio is filed under the provider and the head of the TTS chain that make it
+  const source = `${getProvider().id}/${getModelChain('tts')[0]}`;
+  // A broken cache must never cost the lesson its teacher voice
+  const cached = await getCachedSpeech(text, voice, source).catch(() => null);
+  if (cached) return decodeSpeech(cached);
+
+  return callWithRetry('generateTeacherVoice', async (ctx) => {
+    const pcm = await getProvider().generateSpeech(ctx, { text, ...voice });
+    const buffer = await decodeSpeech(pcm);
+    putCachedSpeech(text, voice, source, pcm).catch(err => console.warn('[SpeakPro] Teacher audio cache write failed:', err));
+    return buffer;
+  }, 1, 60000, signal);
 };
 
-export const evaluatePresentation = async (originalScript: string, audioBase64: string, audioMimeType: string, level: CEFRLevel): Promise<EvaluationResult> => {
-  return callWithRetry(async (model) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: audioMimeType, data: audioBase64 } },
-          {
-            text: `You are a certified Cambridge Speaking examiner for young learners. You MUST carefully LISTEN to the audio recording attached. The child is reading a presentation script.
-
-TARGET SCRIPT (what they should have read):
-"${originalScript}"
-
-IMPORTANT INSTRUCTIONS:
-1. TRANSCRIBE FIRST: Listen carefully and transcribe EXACTLY what the child actually said in the audio. Pay attention to skipped words, mispronunciations, or hesitations. DO NOT just copy the target script.
-2. COMPARE & EVALUATE: Compare the child's actual speech (the transcript) against the target script word by word.
-3. SCORING RUBRIC (0-10 INTEGER ONLY):
-   - Pronunciation (0-10): Clarity of sounds, word endings (like -s, -ed), and stress.
-   - Fluency (0-10): Smoothness, appropriate pausing, lack of hesitation.
-   - Intonation (0-10): Natural rise and fall of voice, expressing enthusiasm vs robotic reading.
-   - Vocabulary (0-10): Accurate reading of the vocabulary words without stumbling.
-   - Grammar (0-10): Accurate reading of grammatical structures in the text.
-   - Task Fulfillment (0-10): How much of the script was completed? (e.g. read the whole script = 9-10; read half = 5).
-
-4. SCORING RULES:
-   - 9-10: Excellent clear reading, near-native or very natural AI-like.
-   - 7-8: Good, clear attempt with minor pronunciation/fluency issues.
-   - 5-6: Average, noticeable struggles with reading.
-   - 0-4: Poor, incomprehensible or mostly incomplete.
-   - Be objective but encouraging. A good attempt should be rewarded.
-
-5. FEEDBACK (VIETNAMESE): Provide highly encouraging, specific feedback in Vietnamese. Praise their effort first, then gently point out 1-2 areas to improve. All text except the transcript MUST be in Vietnamese.
-
-Return JSON EXACTLY matching this structure:
-{
-  "transcript": "(What the child actually said - English)",
-  "pronunciation": 8,
-  "fluency": 7,
-  "intonation": 7,
-  "vocabulary": 8,
-  "grammar": 8,
-  "taskFulfillment": 9,
-  "feedback": "Detailed feedback in Vietnamese about the child's performance",
-  "teacherPraise": "Encouraging praise in Vietnamese",
-  "mistakes": [{"word": "mispronounced word", "type": "mispronunciation", "feedback": "Specific feedback in Vietnamese"}],
-  "suggestions": ["Suggestion 1 in Vietnamese", "Suggestion 2", "Suggestion 3"]
-}` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            transcript: { type: Type.STRING },
-            pronunciation: { type: Type.NUMBER },
-            fluency: { type: Type.NUMBER },
-            intonation: { type: Type.NUMBER },
-            vocabulary: { type: Type.NUMBER },
-            grammar: { type: Type.NUMBER },
-            taskFulfillment: { type: Type.NUMBER },
-            feedback: { type: Type.STRING },
-            teacherPraise: { type: Type.STRING },
-            mistakes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  word: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  feedback: { type: Type.STRING }
-                },
-                required: ["word", "type", "feedback"]
-              }
-            },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
-    });
+// Recordings larger than this go through the provider's file store instead of
+// inline in the request, which Gemini caps at 20 MB with the prompt included
+export const INLINE_AUDIO_LIMIT_BYTES = 4 * 1024 * 1024;
+// The timeout allows for an upload this slow, like a busy classroom Wi-Fi
+const SLOW_UPLOAD_BYTES_PER_SECOND = 50 * 1024;
+
+/** The examiner listens to the whole recording, so the timeout grows with its length and upload. */
+function evaluationTimeoutMs(audio: Blob, uploaded: boolean): number {
+  const listenMs = estimateAudioSeconds(audio.size, audio.type) * 1000;
+  const uploadMs = uploaded ? (audio.size / SLOW_UPLOAD_BYTES_PER_SECOND) * 1000 : 0;
+  return Math.round(60000 + listenMs + uploadMs);
+}
+
+export const evaluatePresentation = async (
+  originalScript: string,
+  audio: Blob,
+  level: CEFRLevel,
+  metrics: FluencyMetrics | null,
+  signal?: AbortSignal,
+  onUploadProgress?: (fraction: number) => void
+): Promise<EvaluationResult> => {
+  const useFile = audio.size > INLINE_AUDIO_LIMIT_BYTES;
+  const audioBase64 = useFile ? undefined : await blobToBase64(audio);
+  // Files belong to the key that uploaded them; a fallback model on the same key reuses the upload
+  const uploads = new Map<string, Promise<UploadedAudio>>();
+  const uploadFor = (ctx: ProviderCallContext) => {
+    let upload = uploads.get(ctx.apiKey);
+    if (!upload) {
+      upload = getProvider().uploadAudio(ctx, { audio, onProgress: onUploadProgress });
+      upload.catch(() => uploads.delete(ctx.apiKey));
+      uploads.set(ctx.apiKey, upload);
+    }
+    return upload;
+  };
 
-    const raw = JSON.parse(response.text || '{}');
+  return callWithRetry('evaluatePresentation', async (ctx) => {
+    const audioInput = useFile ? { audioFile: await uploadFor(ctx) } : { audioBase64 };
+    const text = await getProvider().evaluatePresentation(ctx, { originalScript, ...audioInput, audioMimeType: audio.type, level, ...(metrics ? { metrics } : {}) });
+    const raw = JSON.parse(text || '{}');
     console.log('[SpeakPro] Raw evaluation response:', JSON.stringify(raw));
 
     // Normalize scores to 0-10 scale
@@ -380,25 +410,11 @@ Return JSON EXACTLY matching this structure:
       score: finalScore,
       perceivedLevel: level,
       keyVocabulary: [],
-      evaluationDate: new Date().toLocaleDateString('vi-VN')
+      evaluationDate: new Date().toLocaleDateString('vi-VN'),
+      // The rate counts the words the child actually said, not the whole script
+      ...(metrics ? { acousticMetrics: withWordCount(metrics, splitWords(raw.transcript || '').length || metrics.words) } : {})
     };
-  });
+  }, 1, evaluationTimeoutMs(audio, useFile), signal)
+    // Only once every attempt is over can no fallback reuse the uploads
+    .finally(() => uploads.forEach(upload => upload.then(file => getProvider().releaseAudio?.(file), () => { })));
 };
-
-export function decode(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
-
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
@@ -0,0 +1,57 @@
+
+// =============================================
+// MINIMAL INDEXEDDB HELPERS
+// One database for the whole app; each feature owns an object store.
+// =============================================
+
+const DB_NAME = 'speakpro-lab';
+const DB_VERSION = 3;
+const STORES = ['cassette', 'usage', 'tts-audio', 'tts-meta'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(store: StoreName, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const idbGet = <T>(store: StoreName, key: string) =>
+  withStore<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, key: string, value: T) =>
+  withStore<IDBValidKey>(store, 'readwrite', s => s.put(value, key));
+
+export const idbDelete = (store: StoreName, key: string) =>
+  withStore<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName) =>
+  withStore<undefined>(store, 'readwrite', s => s.clear());
+
+export const idbCount = (store: StoreName) =>
+  withStore<number>(store, 'readonly', s => s.count());
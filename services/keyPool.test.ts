@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getKeyStatus, markKeyInvalid, markKeyQuotaHit, markKeySuccess, pickApiKey, setApiKeys, soonestReadyKey } from './keyPool';
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+}
+
+describe('key pool', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T08:00:00'));
+    setApiKeys(['key-a', 'key-b', 'key-c']);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the keys in priority order', () => {
+    expect(pickApiKey()).toBe('key-a');
+    expect(getKeyStatus('key-a')).toBe('unused');
+  });
+
+  it('rotates to the next key while one rests after a quota error', () => {
+    markKeyQuotaHit('key-a', 'quota');
+    expect(getKeyStatus('key-a')).toBe('cooldown');
+    expect(pickApiKey()).toBe('key-b');
+  });
+
+  it('brings a key back once its cooldown is over', () => {
+    markKeyQuotaHit('key-a', 'quota');
+    vi.advanceTimersByTime(60_000 + 1);
+    expect(getKeyStatus('key-a')).toBe('ready');
+    expect(pickApiKey()).toBe('key-a');
+  });
+
+  it('skips invalid keys until the keys are saved again', () => {
+    markKeyInvalid('key-a', 'bad key');
+    expect(pickApiKey()).toBe('key-b');
+    setApiKeys(['key-a', 'key-b']);
+    expect(pickApiKey()).toBe('key-a');
+  });
+
+  it('falls back to the key that is ready soonest when every key rests', () => {
+    markKeyQuotaHit('key-b', 'quota');
+    vi.advanceTimersByTime(10_000);
+    markKeyQuotaHit('key-a', 'quota');
+    markKeyInvalid('key-c', 'bad key');
+    expect(pickApiKey()).toBeNull();
+    expect(soonestReadyKey()).toBe('key-b');
+  });
+
+  it('clears the cooldown after a success', () => {
+    markKeyQuotaHit('key-a', 'quota');
+    markKeySuccess('key-a');
+    expect(pickApiKey()).toBe('key-a');
+  });
+
+  it('never stores the keys themselves in the health map', () => {
+    markKeySuccess('key-a');
+    expect(localStorage.getItem('api_key_health')).not.toContain('key-a');
+  });
+});
@@ -0,0 +1,143 @@
+import { getUnlockedKeys, isVaultEnabled, updateVaultKeys } from "./keyVault";
+
+// =============================================
+// API KEY POOL
+// Several keys can be registered; when one hits its quota it rests for a
+// while and the retry layer moves on to the next one.
+// =============================================
+
+// How long a key rests after a quota error before it is tried again
+const QUOTA_COOLDOWN_MS = 60_000;
+
+export interface KeyHealth {
+  cooldownUntil: number;
+  // Rejected by the server as invalid; skipped until the keys are saved again
+  invalid?: boolean;
+  quotaHits: number;
+  successes: number;
+  lastUsedAt: number;
+  lastError?: string;
+}
+
+export type KeyStatus = 'ready' | 'cooldown' | 'invalid' | 'unused';
+
+type HealthMap = Record<string, KeyHealth>;
+
+/**
+ * The registered keys in priority order; a key saved by older versions
+ * counts as the only one. A locked vault yields no keys.
+ */
+export function getApiKeys(): string[] {
+  if (isVaultEnabled()) return getUnlockedKeys() ?? [];
+  try {
+    const stored = JSON.parse(localStorage.getItem('gemini_api_keys') || 'null');
+    if (Array.isArray(stored)) return stored.filter((k): k is string => typeof k === 'string' && !!k);
+  } catch {
+    // Unreadable list: fall through to the single legacy key
+  }
+  const legacy = localStorage.getItem('gemini_api_key');
+  return legacy ? [legacy] : [];
+}
+
+export function setApiKeys(keys: string[]) {
+  const unique = [...new Set(keys.map(k => k.trim()).filter(Boolean))];
+  if (isVaultEnabled()) {
+    updateVaultKeys(unique).catch(err => console.warn('[SpeakPro] Saving encrypted keys failed:', err));
+  } else {
+    localStorage.setItem('gemini_api_keys', JSON.stringify(unique));
+    localStorage.removeItem('gemini_api_key');
+  }
+
+  // Forget the health of keys that were removed; kept keys get another chance
+  const kept = unique.map(fingerprint);
+  const health = readHealth();
+  Object.keys(health).forEach(id => {
+    if (!kept.includes(id)) delete health[id];
+    else health[id].invalid = false;
+  });
+  writeHealth(health);
+}
+
+/**
+ * Health is stored under a hash of the key (FNV-1a), never the key itself,
+ * so an encrypted vault does not leak its keys through this map.
+ */
+function fingerprint(key: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fp:${(hash >>> 0).toString(16)}`;
+}
+
+function readHealth(): HealthMap {
+  try {
+    const stored: HealthMap = JSON.parse(localStorage.getItem('api_key_health') || '{}') || {};
+    // Older versions keyed the map by the plaintext key: drop those entries
+    return Object.fromEntries(Object.entries(stored).filter(([id]) => id.startsWith('fp:')));
+  } catch {
+    return {};
+  }
+}
+
+function writeHealth(health: HealthMap) {
+  localStorage.setItem('api_key_health', JSON.stringify(health));
+}
+
+function updateHealth(key: string, change: (h: KeyHealth) => void) {
+  const health = readHealth();
+  const id = fingerprint(key);
+  const entry = health[id] || { cooldownUntil: 0, quotaHits: 0, successes: 0, lastUsedAt: 0 };
+  change(entry);
+  health[id] = entry;
+  writeHealth(health);
+}
+
+export const getKeyHealth = (key: string): KeyHealth | undefined => readHealth()[fingerprint(key)];
+
+export function getKeyStatus(key: string, now = Date.now()): KeyStatus {
+  const health = getKeyHealth(key);
+  if (!health) return 'unused';
+  if (health.invalid) return 'invalid';
+  return health.cooldownUntil > now ? 'cooldown' : 'ready';
+}
+
+/** First key in priority order that is neither resting nor invalid, or null when there is none. */
+export function pickApiKey(now = Date.now()): string | null {
+  return getApiKeys().find(key => ['ready', 'unused'].includes(getKeyStatus(key, now))) ?? null;
+}
+
+/** The resting key that will be ready first — better than giving up when every key is resting. */
+export function soonestReadyKey(): string | null {
+  const health = readHealth();
+  const until = (key: string) => health[fingerprint(key)]?.cooldownUntil ?? 0;
+  const keys = getApiKeys().filter(key => !health[fingerprint(key)]?.invalid);
+  if (keys.length === 0) return null;
+  return keys.reduce((best, key) => until(key) < until(best) ? key : best);
+}
+
+export function markKeyQuotaHit(key: string, message: string) {
+  updateHealth(key, h => {
+    h.cooldownUntil = Date.now() + QUOTA_COOLDOWN_MS;
+    h.quotaHits++;
+    h.lastUsedAt = Date.now();
+    h.lastError = message;
+  });
+}
+
+export function markKeyInvalid(key: string, message: string) {
+  updateHealth(key, h => {
+    h.invalid = true;
+    h.lastUsedAt = Date.now();
+    h.lastError = message;
+  });
+}
+
+export function markKeySuccess(key: string) {
+  updateHealth(key, h => {
+    h.cooldownUntil = 0;
+    h.successes++;
+    h.lastUsedAt = Date.now();
+  });
+}
@@ -0,0 +1,126 @@
+import { decode, encode } from "./audioUtils";
+
+// =============================================
+// PASSPHRASE-ENCRYPTED KEY VAULT
+// On shared tablets the key list can be stored encrypted with a teacher
+// passphrase (PBKDF2 + AES-GCM). Once unlocked, the keys live in memory
+// only, and the vault locks itself again after a spell of inactivity.
+// =============================================
+
+const VAULT_STORAGE_KEY = 'gemini_api_keys_encrypted';
+const PBKDF2_ITERATIONS = 250_000;
+export const AUTO_LOCK_MINUTES = 15;
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// Present only while the vault is unlocked
+let session: { cryptoKey: CryptoKey; salt: Uint8Array; keys: string[] } | null = null;
+let lockTimer: number | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Calls the listener whenever the vault locks, unlocks, or is switched on or off. */
+export function subscribeVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function readVault(): VaultFile | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) || 'null');
+    return stored?.version === 1 ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export const isVaultEnabled = () => readVault() !== null;
+
+export const isVaultLocked = () => isVaultEnabled() && session === null;
+
+/** The decrypted keys, or null when the vault is locked. */
+export const getUnlockedKeys = (): string[] | null => session?.keys ?? null;
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function writeVault(cryptoKey: CryptoKey, salt: Uint8Array, keys: string[]) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cryptoKey, new TextEncoder().encode(JSON.stringify(keys)));
+  const file: VaultFile = { version: 1, salt: encode(salt), iv: encode(iv), data: encode(new Uint8Array(data)) };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(file));
+}
+
+/** Restarts the inactivity countdown; call on every user interaction. */
+export function noteVaultActivity() {
+  if (!session) return;
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = window.setTimeout(lockVault, AUTO_LOCK_MINUTES * 60 * 1000);
+}
+
+function openSession(cryptoKey: CryptoKey, salt: Uint8Array, keys: string[]) {
+  session = { cryptoKey, salt, keys };
+  noteVaultActivity();
+  notify();
+}
+
+/** Encrypts the keys with the passphrase and removes every plaintext copy. */
+export async function enableVault(passphrase: string, keys: string[]) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cryptoKey = await deriveKey(passphrase, salt);
+  await writeVault(cryptoKey, salt, keys);
+  localStorage.removeItem('gemini_api_keys');
+  localStorage.removeItem('gemini_api_key');
+  openSession(cryptoKey, salt, keys);
+}
+
+/** Stores the keys in plaintext again; only possible while unlocked. */
+export function disableVault() {
+  if (!session) throw new Error('Cần mở khoá trước khi tắt mã hoá.');
+  localStorage.setItem('gemini_api_keys', JSON.stringify(session.keys));
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  lockVault();
+}
+
+export async function unlockVault(passphrase: string) {
+  const vault = readVault();
+  if (!vault) return;
+  const salt = decode(vault.salt);
+  const cryptoKey = await deriveKey(passphrase, salt);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(vault.iv) }, cryptoKey, decode(vault.data));
+  } catch {
+    // AES-GCM authentication fails when the passphrase is wrong
+    throw new Error('Sai mật khẩu. Thầy cô hãy thử lại nhé!');
+  }
+  openSession(cryptoKey, salt, JSON.parse(new TextDecoder().decode(plain)));
+}
+
+export function lockVault() {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  session = null;
+  notify();
+}
+
+/** Replaces the encrypted key list; the vault must be unlocked. */
+export async function updateVaultKeys(keys: string[]) {
+  if (!session) throw new Error('Cần mở khoá trước khi đổi key.');
+  session.keys = keys;
+  await writeVault(session.cryptoKey, session.salt, keys);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeScript, describeViolations } from './levelCompliance';
+
+const check = (report: ReturnType<typeof analyzeScript>, id: string) => report.checks.find(c => c.id === id);
+
+describe('analyzeScript', () => {
+  const starters = 'Hello, I am Lan. This is my cat. It has got a long tail. My cat can jump and run. I like my cat. She is white and small. Thank you!';
+
+  it('passes a script that fits the Starters band', () => {
+    const report = analyzeScript(starters, 'Starters');
+    expect(report.wordCount).toBe(31);
+    expect(report.offListWords).toEqual([]);
+    expect(report.missingStructures).toEqual([]);
+    expect(report.compliant).toBe(true);
+  });
+
+  it('flags words above the wordlist, but not names or exempt words', () => {
+    const report = analyzeScript('This is Lan. My cat is magnificent and enormous. I like my crocodile puppet.', 'Starters', ['puppet']);
+    expect(report.offListWords).toEqual(['magnificent', 'enormous']);
+    expect(check(report, 'wordlist')?.ok).toBe(false);
+  });
+
+  it('maps inflected forms back to the list entry', () => {
+    const report = analyzeScript('The cats are playing. The babies were happier.', 'Starters');
+    expect(report.offListWords).toEqual([]);
+  });
+
+  it('checks A2 and B1 vocabulary against the CEFR lists', () => {
+    const script = 'Orangutans are losing their habitat because of deforestation. Scientists say we must protect the rainforest.';
+    expect(analyzeScript(script, 'A2').offListWords).toEqual(['orangutans', 'scientists']);
+    expect(analyzeScript(script, 'B1').offListWords).toEqual(['orangutans']);
+    expect(analyzeScript(script, 'B2').checks.map(c => c.id)).not.toContain('wordlist');
+  });
+
+  it('reports the grammar focus structures a script leaves out', () => {
+    const report = analyzeScript('Forests are important. Many animals live there. People cut trees.', 'B1');
+    expect(report.missingStructures).toEqual(['passive voice', 'complex cause-effect structures', 'relative clauses']);
+    expect(check(report, 'grammar')?.ok).toBe(false);
+
+    const better = analyzeScript('Forests are cut down every year. As a result, animals which live there lose their homes.', 'B1');
+    expect(better.missingStructures).toEqual([]);
+    expect(check(better, 'grammar')?.ok).toBe(true);
+  });
+
+  it('flags word counts outside the band and long sentences', () => {
+    const report = analyzeScript('This is my cat and it has got a very long tail and big green eyes and soft white hair.', 'Starters');
+    expect(check(report, 'word-count')?.ok).toBe(false);
+    expect(check(report, 'sentence-length')?.ok).toBe(false);
+  });
+});
+
+describe('describeViolations', () => {
+  it('turns every failed check into a rewrite instruction', () => {
+    const report = analyzeScript('Forests are important. Deforestation is catastrophic, devastating and irreversible.', 'A2');
+    const lines = describeViolations(report);
+    expect(lines).toHaveLength(report.checks.filter(c => !c.ok).length);
+    expect(lines.join('\n')).toContain('catastrophic');
+    expect(lines.join('\n')).toContain('CEFR A2 wordlist');
+  });
+});
@@ -0,0 +1,159 @@
+import { CEFRLevel, ComplianceCheck, ComplianceReport } from "../types";
+import { getCurriculumLevel } from "../curriculum";
+import { FUNCTION_WORDS, STARTERS_WORDS, MOVERS_WORDS, FLYERS_WORDS, A2_WORDS, B1_WORDS } from "../wordlists";
+import { splitSentences } from "./scriptParser";
+
+// =============================================
+// LEVEL COMPLIANCE ANALYZER
+// Checks locally that a script matches the band promised for its level.
+// =============================================
+
+// Word counts may drift this far outside the band before a rewrite is asked for
+const WORD_COUNT_TOLERANCE = 0.1;
+// Share of off-list words tolerated (names, topic words the model had to use)
+const OFF_LIST_TOLERANCE = 0.1;
+
+const YLE_WORDS = [...STARTERS_WORDS, ...MOVERS_WORDS, ...FLYERS_WORDS];
+
+const WORDLISTS = {
+  starters: { name: 'Cambridge Starters', words: new Set(STARTERS_WORDS) },
+  movers: { name: 'Cambridge Movers', words: new Set([...STARTERS_WORDS, ...MOVERS_WORDS]) },
+  flyers: { name: 'Cambridge Flyers', words: new Set(YLE_WORDS) },
+  a2: { name: 'CEFR A2', words: new Set([...YLE_WORDS, ...A2_WORDS]) },
+  b1: { name: 'CEFR B1', words: new Set([...YLE_WORDS, ...A2_WORDS, ...B1_WORDS]) },
+};
+
+export const tokenizeWords = (text: string): string[] =>
+  text.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) || [];
+
+/** Crude English lemmatizer: enough to map "playing", "cats", "bigger" back to the list entry. */
+function lemmaCandidates(word: string): string[] {
+  const w = word.toLowerCase().replace(/’/g, "'").replace(/'s$/, '');
+  const out = [w];
+  const push = (c: string) => { if (c.length > 1) out.push(c); };
+  if (w.endsWith('ies')) push(w.slice(0, -3) + 'y');
+  if (w.endsWith('es')) push(w.slice(0, -2));
+  if (w.endsWith('s')) push(w.slice(0, -1));
+  if (w.endsWith('ied')) push(w.slice(0, -3) + 'y');
+  if (w.endsWith('ed')) { push(w.slice(0, -2)); push(w.slice(0, -1)); }
+  for (const suffix of ['ing', 'er', 'est']) {
+    if (!w.endsWith(suffix)) continue;
+    const stem = w.slice(0, -suffix.length);
+    push(stem);
+    push(stem + 'e');
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) push(stem.slice(0, -1));
+    if (stem.endsWith('i')) push(stem.slice(0, -1) + 'y');
+  }
+  if (w.endsWith('ves')) { push(w.slice(0, -3) + 'f'); push(w.slice(0, -3) + 'fe'); }
+  if (w.endsWith('ily')) push(w.slice(0, -3) + 'y');
+  if (w.endsWith('ly')) push(w.slice(0, -2));
+  if (w.includes("n't")) push(w.replace("n't", ''));
+  return out;
+}
+
+const isKnown = (word: string, list: Set<string>, exempt: Set<string>) =>
+  lemmaCandidates(word).some(c => FUNCTION_WORDS.has(c) || list.has(c) || exempt.has(c));
+
+/** Capitalised words that do not start a sentence are names and places. */
+function properNouns(sentences: string[]): Set<string> {
+  const names = new Set<string>();
+  sentences.forEach(sentence => {
+    tokenizeWords(sentence).slice(1).forEach(w => {
+      if (/^[A-Z]/.test(w) && w !== 'I') names.add(w.toLowerCase());
+    });
+  });
+  return names;
+}
+
+/**
+ * @param exemptWords words that are fine whatever the level — the lesson
+ * vocabulary, the child's name and the words the child asked for.
+ */
+export function analyzeScript(script: string, level: CEFRLevel, exemptWords: string[] = []): ComplianceReport {
+  const target = getCurriculumLevel(level);
+  const sentences = splitSentences(script);
+  const tokens = tokenizeWords(script);
+  const wordCount = tokens.length;
+  const sentenceCount = Math.max(1, sentences.length);
+  const avgSentenceLength = Math.round((wordCount / sentenceCount) * 10) / 10;
+
+  const checks: ComplianceCheck[] = [];
+
+  const minOk = Math.floor(target.wordRange.min * (1 - WORD_COUNT_TOLERANCE));
+  const maxOk = Math.ceil(target.wordRange.max * (1 + WORD_COUNT_TOLERANCE));
+  checks.push({
+    id: 'word-count',
+    label: 'Số từ',
+    ok: wordCount >= minOk && wordCount <= maxOk,
+    detail: `${wordCount} từ (chuẩn ${target.wordRange.min}-${target.wordRange.max})`,
+  });
+
+  checks.push({
+    id: 'sentence-length',
+    label: 'Độ dài câu',
+    ok: avgSentenceLength <= target.maxAvgSentenceLength,
+    detail: `${avgSentenceLength} từ/câu (tối đa ${target.maxAvgSentenceLength})`,
+  });
+
+  let offListWords: string[] = [];
+  if (target.wordlist) {
+    const exempt = new Set([
+      ...[...exemptWords, ...target.vocabThemes].flatMap(w => tokenizeWords(w)).map(w => w.toLowerCase()),
+      ...properNouns(sentences),
+    ]);
+    const list = WORDLISTS[target.wordlist];
+    offListWords = [...new Set(tokens.map(t => t.toLowerCase()))].filter(w => !isKnown(w, list.words, exempt));
+    const offListCount = tokens.filter(t => offListWords.includes(t.toLowerCase())).length;
+    checks.push({
+      id: 'wordlist',
+      label: 'Từ vựng theo trình độ',
+      ok: offListCount <= Math.max(1, wordCount * OFF_LIST_TOLERANCE),
+      detail: offListWords.length
+        ? `${offListWords.length} từ ngoài danh sách ${list.name}: ${offListWords.slice(0, 8).join(', ')}`
+        : `Toàn bộ từ nằm trong danh sách ${list.name}`,
+    });
+  }
+
+  // Using about half of the focus structures shows the level without forcing every one in
+  const structures = target.grammarFocus;
+  const lines = sentences.join('\n');
+  const missingStructures = structures.filter(s => !s.pattern.test(lines)).map(s => s.name);
+  const usedCount = structures.length - missingStructures.length;
+  checks.push({
+    id: 'grammar',
+    label: 'Cấu trúc ngữ pháp',
+    ok: usedCount >= Math.ceil(structures.length / 2),
+    detail: missingStructures.length
+      ? `Dùng ${usedCount}/${structures.length} cấu trúc; chưa có: ${missingStructures.join('; ')}`
+      : `Dùng đủ ${structures.length} cấu trúc trọng tâm`,
+  });
+
+  return {
+    level,
+    wordCount,
+    sentenceCount: sentences.length,
+    avgSentenceLength,
+    offListWords,
+    missingStructures,
+    checks,
+    compliant: checks.every(c => c.ok),
+    revised: false,
+  };
+}
+
+/** Plain-English rewrite instructions for the failed checks of a report. */
+export function describeViolations(report: ComplianceReport): string[] {
+  const target = getCurriculumLevel(report.level);
+  return report.checks.filter(c => !c.ok).map(c => {
+    switch (c.id) {
+      case 'word-count':
+        return `The script has ${report.wordCount} words; it MUST have between ${target.wordRange.min} and ${target.wordRange.max} words.`;
+      case 'sentence-length':
+        return `Average sentence length is ${report.avgSentenceLength} words; keep it at or below ${target.maxAvgSentenceLength} words per sentence.`;
+      case 'wordlist':
+        return `Replace these words that are above the ${WORDLISTS[target.wordlist!].name} wordlist with simpler ones: ${report.offListWords.join(', ')}.`;
+      case 'grammar':
+        return `Work in these ${report.level} grammar structures naturally: ${report.missingStructures.join('; ')}.`;
+    }
+  });
+}
@@ -0,0 +1,146 @@
+import { measureFrame, SPEECH_RMS_FLOOR } from "./voiceActivity";
+
+// =============================================
+// MICROPHONE CHOICE AND PREFLIGHT TEST
+// The teacher picks which microphone to record from (a headset usually
+// beats the laptop mic) and can test it before the child starts. The
+// choice is remembered on this device.
+// =============================================
+
+const MIC_STORAGE_KEY = 'preferred_mic_device';
+
+export const getPreferredMicId = (): string | null => localStorage.getItem(MIC_STORAGE_KEY);
+
+export function setPreferredMicId(deviceId: string | null) {
+  if (deviceId) localStorage.setItem(MIC_STORAGE_KEY, deviceId);
+  else localStorage.removeItem(MIC_STORAGE_KEY);
+}
+
+/**
+ * Audio inputs on this device. Browsers only reveal the names once the
+ * page has been allowed to use the mic, so labels may be empty before that.
+ */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId);
+}
+
+/**
+ * A mic stream from the remembered device, or from the default one when
+ * nothing is remembered or the remembered device has been unplugged.
+ */
+export async function openMicrophone(deviceId: string | null = getPreferredMicId()): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new DOMException('getUserMedia is not available', 'NotSupportedError');
+  }
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (err: any) {
+      if (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError') throw err;
+      console.warn('[SpeakPro] Saved microphone is gone, using the default one');
+      setPreferredMicId(null);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: true });
+}
+
+/** What went wrong opening the mic, in words a teacher can act on. */
+export function describeMicError(err: unknown): string {
+  const name = (err as { name?: string } | null)?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return '🔒 Trình duyệt đang chặn micro. Thầy cô bấm vào biểu tượng ổ khoá cạnh địa chỉ trang web, chọn "Cho phép" micro rồi tải lại trang nhé!';
+    case 'SecurityError':
+    case 'NotSupportedError':
+      return '🔒 Trang web cần mở bằng https:// (hoặc localhost) thì trình duyệt mới cho dùng micro.';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return '🎙️ Không tìm thấy micro nào. Thầy cô cắm micro hoặc tai nghe có micro rồi thử lại nhé!';
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return '🎙️ Micro đang bị ứng dụng khác dùng (Zoom, Meet...). Thầy cô tắt ứng dụng đó rồi thử lại nhé!';
+    case 'AbortError':
+      return '🎙️ Micro bị ngắt giữa chừng. Thầy cô thử lại hoặc chọn micro khác nhé!';
+    default:
+      return '🎙️ Không thể mở micro. Thầy cô kiểm tra micro và quyền truy cập của trình duyệt nhé!';
+  }
+}
+
+// =============================================
+// PREFLIGHT TEST
+// =============================================
+
+export const MIC_TEST_SECONDS = 3;
+
+export type MicTestVerdict = 'ok' | 'silent' | 'quiet' | 'noisy' | 'clipping';
+
+export interface MicTestResult {
+  verdict: MicTestVerdict;
+  // RMS levels (0..1) of the room between words and of the voice
+  noiseFloor: number;
+  speechLevel: number;
+  peak: number;
+}
+
+// Room noise above this will be heard in every recording
+const NOISY_FLOOR_RMS = 0.03;
+const QUIET_SPEECH_RMS = 0.04;
+const CLIPPING_PEAK = 0.99;
+
+export const MIC_TEST_ADVICE: Record<MicTestVerdict, string> = {
+  ok: '✅ Micro tốt! Tiếng rõ và phòng đủ yên tĩnh.',
+  silent: '🔇 Micro không thu được tiếng. Thầy cô thử chọn micro khác hoặc kiểm tra nút tắt tiếng trên tai nghe nhé!',
+  quiet: '🔈 Tiếng hơi nhỏ. Bé ngồi gần micro hơn hoặc tăng âm lượng micro trong máy nhé!',
+  noisy: '📢 Phòng hơi ồn. Thầy cô tìm chỗ yên tĩnh hơn hoặc dùng tai nghe có micro nhé!',
+  clipping: '⚠️ Tiếng bị rè vì quá to. Bé lùi xa micro hoặc giảm âm lượng micro nhé!',
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] : 0;
+
+/**
+ * Listens to the stream for MIC_TEST_SECONDS while the child says a few
+ * words, reporting the level (0..100) as it goes for a meter.
+ */
+export async function runMicTest(stream: MediaStream, onLevel: (level: number) => void, signal?: AbortSignal): Promise<MicTestResult> {
+  const ctx = new AudioContext();
+  try {
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    ctx.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const levels: number[] = [];
+    let peak = 0;
+
+    await new Promise<void>(resolve => {
+      const startedAt = performance.now();
+      const tick = () => {
+        if (signal?.aborted) return resolve();
+        analyser.getFloatTimeDomainData(samples);
+        const frame = measureFrame(samples);
+        levels.push(frame.rms);
+        peak = Math.max(peak, frame.peak);
+        onLevel(Math.min(100, Math.round(Math.sqrt(frame.rms) * 200)));
+        if (performance.now() - startedAt >= MIC_TEST_SECONDS * 1000) return resolve();
+        requestAnimationFrame(tick);
+      };
+      requestAnimationFrame(tick);
+    });
+
+    const sorted = [...levels].sort((a, b) => a - b);
+    const noiseFloor = percentile(sorted, 0.1);
+    const speechLevel = percentile(sorted, 0.9);
+    const verdict: MicTestVerdict = speechLevel < SPEECH_RMS_FLOOR ? 'silent'
+      : peak >= CLIPPING_PEAK ? 'clipping'
+      : noiseFloor > NOISY_FLOOR_RMS ? 'noisy'
+      : speechLevel < QUIET_SPEECH_RMS ? 'quiet'
+      : 'ok';
+    return { verdict, noiseFloor, speechLevel, peak };
+  } finally {
+    onLevel(0);
+    ctx.close().catch(() => { });
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockProvider } from './mockProvider';
+import { ProviderCallContext } from './aiProvider';
+
+const ctx: ProviderCallContext = { model: 'mock', apiKey: '' };
+
+/** Runs the mock's simulated latency to the end and returns its answer. */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+const wordCount = (draft: { intro: string; points: string[]; conclusion: string }) =>
+  [draft.intro, ...draft.points, draft.conclusion].join(' ').split(/\s+/).length;
+
+describe('mockProvider', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('writes a script for the child that grows with the level', async () => {
+    const request = { imagePrompt: '', userText: '', childName: 'Lan', themeLabel: 'my cat' };
+    const starters = JSON.parse(await settle(mockProvider.generatePresentationScript(ctx, { ...request, level: 'Starters' })));
+    const b2 = JSON.parse(await settle(mockProvider.generatePresentationScript(ctx, { ...request, level: 'B2' })));
+    expect(starters.intro).toContain('My name is Lan');
+    expect(starters.intro).toContain('my cat');
+    expect(starters.lessonVocab.every((v: { ipa?: string }) => v.ipa)).toBe(true);
+    expect(wordCount(b2)).toBeGreaterThan(wordCount(starters));
+  });
+
+  it('streams the script in growing pieces that end with the whole answer', async () => {
+    const chunks: string[] = [];
+    const text = await settle(mockProvider.generateScriptFromImage(ctx, { imageBase64: '', imageMimeType: 'image/png', level: 'A1', childName: 'Lan' }, t => chunks.push(t)));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1]).toBe(text);
+  });
+
+  it('gives the same answer every time', async () => {
+    const request = { imagePrompt: '', userText: '', level: 'A2' as const, childName: 'Lan', themeLabel: 'the sea' };
+    const first = await settle(mockProvider.generatePresentationScript(ctx, request));
+    expect(await settle(mockProvider.generatePresentationScript(ctx, request))).toBe(first);
+  });
+
+  it('beeps once per word of the text', async () => {
+    const two = await settle(mockProvider.generateSpeech(ctx, { text: 'Hello everyone', voiceName: 'Kore' }));
+    const four = await settle(mockProvider.generateSpeech(ctx, { text: 'Hello everyone, I am Lan', voiceName: 'Kore' }));
+    expect(two.byteLength).toBeGreaterThan(0);
+    expect(four.byteLength).toBe(two.byteLength * 5 / 2);
+  });
+
+  it('trims a revised script to the top of the level band', async () => {
+    const draft = { intro: 'Hello everyone!', points: Array(10).fill('I can see a big green tree here.'), conclusion: 'Thank you!', lessonVocab: [] };
+    const revised = JSON.parse(await settle(mockProvider.reviseScript(ctx, { draft, level: 'Starters', instructions: [] })));
+    expect(wordCount(revised)).toBeLessThanOrEqual(30);
+  });
+
+  it('grades a longer reading as covering more of the script', async () => {
+    const originalScript = 'Hello everyone. This is my cat. It has got a long tail. I like my cat very much.';
+    const grade = async (audioBytes: number) => JSON.parse(await settle(mockProvider.evaluatePresentation(ctx, {
+      originalScript, audioBase64: 'A'.repeat(Math.round(audioBytes / 0.75)), audioMimeType: 'audio/wav', level: 'Starters',
+    })));
+    const short = await grade(16_000);
+    const full = await grade(16_000 * 2 * 10);
+    expect(full.taskFulfillment).toBeGreaterThan(short.taskFulfillment);
+    expect(full.transcript.split(' ').length).toBeGreaterThan(short.transcript.split(' ').length);
+  });
+
+  it('keeps an upload for every evaluation until it is released', async () => {
+    const progress: number[] = [];
+    const audio = new Blob([new Uint8Array(16_000 * 2 * 10)], { type: 'audio/wav' });
+    const file = await settle(mockProvider.uploadAudio(ctx, { audio, onProgress: p => progress.push(p) }));
+    expect(progress[progress.length - 1]).toBe(1);
+
+    const request = { originalScript: 'Hello everyone. This is my cat.', audioFile: file, audioMimeType: 'audio/wav', level: 'Starters' as const };
+    const first = await settle(mockProvider.evaluatePresentation(ctx, request));
+    expect(await settle(mockProvider.evaluatePresentation(ctx, request))).toBe(first);
+
+    mockProvider.releaseAudio?.(file);
+    expect(await settle(mockProvider.evaluatePresentation(ctx, request))).not.toBe(first);
+  });
+});
@@ -0,0 +1,187 @@
+import { CEFRLevel, PresentationDraft } from "../types";
+import { TTS_SAMPLE_RATE } from "../constants";
+import { getCurriculumLevel } from "../curriculum";
+import { AIProvider, ChunkListener } from "./aiProvider";
+import { sleep } from "./abort";
+import { estimateAudioSeconds } from "./audioUtils";
+
+// =============================================
+// OFFLINE MOCK PROVIDER
+// Deterministic answers for demos and automated tests — no network, no key.
+// =============================================
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK = 40;
+const MOCK_STREAM_DELAY_MS = 80;
+
+const MOCK_UPLOAD_STEPS = 10;
+// Byte size of each uploaded recording until it is released; grading needs nothing else
+const mockFileSizes = new Map<string, number>();
+let mockFileCount = 0;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const CANNED_SCRIPTS: Record<'short' | 'medium' | 'long', { points: string[]; conclusion: string }> = {
+  short: {
+    points: ['I can see a big tree.', 'It has got green leaves.', 'I like it very much.'],
+    conclusion: 'Thank you for listening!',
+  },
+  medium: {
+    points: [
+      'In this picture, I can see a sunny day and many happy children.',
+      'They are playing together near a big green tree.',
+      'Some children are running and some children are laughing.',
+      'I like this place because it is fun and beautiful.',
+    ],
+    conclusion: 'That is all about my picture. Thank you for listening!',
+  },
+  long: {
+    points: [
+      'In this picture, there is a lively scene that is full of colour and energy.',
+      'The children are enjoying their time outdoors, which is good for their health.',
+      'Not only are they having fun, but they are also learning to work as a team.',
+      'If we want places like this to stay beautiful, we should protect them and keep them clean.',
+      'From my point of view, spending time in nature helps us feel calmer and happier.',
+    ],
+    conclusion: 'To sum up, this picture reminds me that we should look after our world. Thank you for listening!',
+  },
+};
+
+const scriptSizeFor = (level: CEFRLevel): keyof typeof CANNED_SCRIPTS => {
+  if (level === 'Starters' || level === 'Movers') return 'short';
+  if (level === 'Flyers' || level === 'A1' || level === 'A2') return 'medium';
+  return 'long';
+};
+
+const buildScript = (level: CEFRLevel, childName: string, topic: string) => {
+  const canned = CANNED_SCRIPTS[scriptSizeFor(level)];
+  return JSON.stringify({
+    intro: `Hello everyone! My name is ${childName || 'Tony'}. Today I will talk about ${topic}.`,
+    points: canned.points,
+    conclusion: canned.conclusion,
+    lessonVocab: [
+      { word: 'picture', ipa: '/ˈpɪk.tʃər/', translation: 'bức tranh', icon: '🖼️' },
+      { word: 'happy', ipa: '/ˈhæp.i/', translation: 'vui vẻ', icon: '😊' },
+      { word: 'tree', ipa: '/triː/', translation: 'cái cây', icon: '🌳' },
+      { word: 'listen', ipa: '/ˈlɪs.ən/', translation: 'lắng nghe', icon: '👂' },
+    ],
+  });
+};
+
+/** Replays a finished answer in small pieces, the way a streamed answer arrives. */
+const streamOut = async (text: string, onChunk?: ChunkListener, signal?: AbortSignal) => {
+  if (!onChunk) return text;
+  for (let end = MOCK_STREAM_CHUNK; end < text.length + MOCK_STREAM_CHUNK; end += MOCK_STREAM_CHUNK) {
+    await sleep(MOCK_STREAM_DELAY_MS, signal);
+    onChunk(text.slice(0, end));
+  }
+  return text;
+};
+
+/** Drops body sentences from the end until the script fits under the word limit. */
+const fitToBand = (draft: PresentationDraft, maxWords: number) => {
+  const points = [...draft.points];
+  const total = () => countWords([draft.intro, ...points, draft.conclusion].join(' '));
+  while (points.length > 1 && total() > maxWords) points.pop();
+  return JSON.stringify({ ...draft, points });
+};
+
+/**
+ * One short 440 Hz beep per word with a gap between words, so the
+ * playback length follows the text length like a real voice would.
+ */
+const synthesizeTone = (text: string): Uint8Array => {
+  const words = Math.max(1, countWords(text));
+  const beepFrames = Math.round(TTS_SAMPLE_RATE * 0.25);
+  const gapFrames = Math.round(TTS_SAMPLE_RATE * 0.15);
+  const pcm = new Int16Array(words * (beepFrames + gapFrames));
+  for (let w = 0; w < words; w++) {
+    const offset = w * (beepFrames + gapFrames);
+    for (let i = 0; i < beepFrames; i++) {
+      const envelope = Math.sin((Math.PI * i) / beepFrames);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / TTS_SAMPLE_RATE) * envelope * 0.3 * 32767);
+    }
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+/**
+ * Rule-based grading: the upload size gives the recording length, and a
+ * child reads ~2 words per second, so the length tells how much of the
+ * script was covered.
+ */
+const gradeRecording = (originalScript: string, audioBytes: number, audioMimeType: string) => {
+  const scriptWords = Math.max(1, countWords(originalScript));
+  const seconds = estimateAudioSeconds(audioBytes, audioMimeType);
+  const coverage = Math.min(1, seconds / (scriptWords / 2));
+  const base = Math.round(4 + coverage * 5);
+  const firstWord = originalScript.split(/\s+/).find(w => w.length > 3)?.replace(/[^a-zA-Z']/g, '') || 'hello';
+
+  return JSON.stringify({
+    transcript: originalScript.split(/\s+/).slice(0, Math.max(1, Math.round(scriptWords * coverage))).join(' '),
+    pronunciation: base,
+    fluency: Math.max(0, base - 1),
+    intonation: Math.max(0, base - 1),
+    vocabulary: base,
+    grammar: base,
+    taskFulfillment: Math.round(coverage * 10),
+    feedback: coverage > 0.8
+      ? 'Bé đã đọc gần hết bài, giọng rõ ràng. Lần sau bé thử đọc chậm hơn một chút ở các từ dài nhé!'
+      : 'Bé đã cố gắng rất nhiều! Bé hãy luyện đọc thêm để đọc hết cả bài nhé.',
+    teacherPraise: coverage > 0.8 ? 'Giỏi lắm! Bé nói rất tự tin!' : 'Cố lên nào, bé làm được mà!',
+    mistakes: [{ word: firstWord, type: 'mispronunciation', feedback: 'Bé chú ý đọc rõ âm cuối của từ này nhé.' }],
+    suggestions: ['Nghe lại giọng cô giáo trước khi ghi âm.', 'Đọc to và rõ từng câu.', 'Ngắt nghỉ sau mỗi dấu chấm.'],
+  });
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  name: 'Offline Demo',
+  requiresApiKey: false,
+
+  async generateImagePrompt({ signal }, theme) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return `A cheerful 3D Pixar style illustration of ${theme}, soft cinematic lighting, vibrant colors, cute characters.`;
+  },
+
+  async generatePresentationScript({ signal }, { level, childName, themeLabel }, onChunk) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return streamOut(buildScript(level, childName, themeLabel || 'my picture'), onChunk, signal);
+  },
+
+  async generateScriptFromImage({ signal }, { level, childName }, onChunk) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return streamOut(buildScript(level, childName, 'my picture'), onChunk, signal);
+  },
+
+  async reviseScript({ signal }, { draft, level }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return fitToBand(draft, getCurriculumLevel(level).wordRange.max);
+  },
+
+  async generateSpeech({ signal }, { text }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return synthesizeTone(text);
+  },
+
+  // Stand-in for a file store: reports progress in steps and remembers only the size
+  async uploadAudio({ signal }, { audio, onProgress }) {
+    for (let step = 1; step <= MOCK_UPLOAD_STEPS; step++) {
+      await sleep(MOCK_STREAM_DELAY_MS, signal);
+      onProgress?.(step / MOCK_UPLOAD_STEPS);
+    }
+    const uri = `mock-file://${++mockFileCount}`;
+    mockFileSizes.set(uri, audio.size);
+    return { uri, mimeType: audio.type };
+  },
+
+  releaseAudio({ uri }) {
+    mockFileSizes.delete(uri);
+  },
+
+  async evaluatePresentation({ signal }, { originalScript, audioBase64, audioFile, audioMimeType }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const audioBytes = audioFile ? mockFileSizes.get(audioFile.uri) ?? 0 : (audioBase64 || '').length * 0.75;
+    return gradeRecording(originalScript, audioBytes, audioMimeType);
+  },
+};
@@ -0,0 +1,96 @@
+// =============================================
+// MODEL CATALOG & PER-TASK CHAINS
+// Each AI task draws from its own ordered chain: the first model is the
+// primary, the rest are tried in order when it fails.
+// =============================================
+
+export type ModelTask = 'script' | 'evaluation' | 'tts';
+
+export type ModelKind = 'text' | 'tts' | 'image';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  kind: ModelKind;
+}
+
+export type ModelChains = Record<ModelTask, string[]>;
+
+export const MODEL_TASKS: { id: ModelTask; label: string; kind: ModelKind }[] = [
+  { id: 'script', label: 'Soạn bài', kind: 'text' },
+  { id: 'evaluation', label: 'Chấm bài', kind: 'text' },
+  { id: 'tts', label: 'Giọng cô giáo', kind: 'tts' },
+];
+
+// Offered before a key has been tested, and used to name discovered models
+export const KNOWN_MODELS: ModelInfo[] = [
+  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', kind: 'text' },
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', kind: 'text' },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', kind: 'text' },
+  { id: 'gemini-2.5-flash-preview-tts', name: 'Gemini 2.5 Flash TTS', kind: 'tts' },
+  { id: 'gemini-2.5-pro-preview-tts', name: 'Gemini 2.5 Pro TTS', kind: 'tts' },
+];
+
+export const DEFAULT_MODEL_CHAINS: ModelChains = {
+  script: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash'],
+  evaluation: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash'],
+  tts: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+};
+
+/** Saved chains; a model picked in older versions becomes the primary of the text chains. */
+export function getModelChains(): ModelChains {
+  try {
+    const stored = JSON.parse(localStorage.getItem('model_chains') || 'null');
+    if (stored && typeof stored === 'object') {
+      const chains = { ...DEFAULT_MODEL_CHAINS };
+      MODEL_TASKS.forEach(({ id }) => {
+        if (Array.isArray(stored[id]) && stored[id].length) chains[id] = stored[id];
+      });
+      return chains;
+    }
+  } catch {
+    // Unreadable chains: fall back to the defaults below
+  }
+
+  const legacy = localStorage.getItem('selected_model');
+  if (!legacy) return DEFAULT_MODEL_CHAINS;
+  const withPrimary = (chain: string[]) => [legacy, ...chain.filter(m => m !== legacy)];
+  return { ...DEFAULT_MODEL_CHAINS, script: withPrimary(DEFAULT_MODEL_CHAINS.script), evaluation: withPrimary(DEFAULT_MODEL_CHAINS.evaluation) };
+}
+
+export function setModelChains(chains: ModelChains) {
+  localStorage.setItem('model_chains', JSON.stringify(chains));
+  localStorage.removeItem('selected_model');
+}
+
+export const getModelChain = (task: ModelTask): string[] => getModelChains()[task];
+
+// =============================================
+// DISCOVERED MODELS
+// =============================================
+
+/** Sorts a model id into the kind of task it can serve, or null for models the app has no use for. */
+export function classifyModel(id: string, supportedActions: string[] = []): ModelKind | null {
+  if (!supportedActions.includes('generateContent')) return null;
+  if (id.includes('tts')) return 'tts';
+  if (id.includes('image')) return 'image';
+  if (/embedding|aqa|live|native-audio|robotics|computer-use/.test(id)) return null;
+  return id.startsWith('gemini') || id.startsWith('gemma') ? 'text' : null;
+}
+
+export const modelName = (id: string, models: ModelInfo[] = KNOWN_MODELS): string =>
+  models.find(m => m.id === id)?.name || KNOWN_MODELS.find(m => m.id === id)?.name || id;
+
+/** Models found by the last successful key test, or null when no key was tested yet. */
+export function getDiscoveredModels(): ModelInfo[] | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem('discovered_models') || 'null');
+    return Array.isArray(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setDiscoveredModels(models: ModelInfo[]) {
+  localStorage.setItem('discovered_models', JSON.stringify(models));
+}
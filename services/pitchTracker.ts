@@ -0,0 +1,149 @@
+import { SPEECH_RMS_FLOOR } from "./voiceActivity";
+import { TimeRange } from "./speechAlignment";
+import { sleep } from "./abort";
+
+// =============================================
+// PITCH TRACKING
+// The voice's fundamental frequency over time, found with the YIN method
+// on the first channel. Frames that are too quiet or not voiced (breaths,
+// "s" and "f" sounds) have no pitch.
+// =============================================
+
+export interface PitchPoint {
+  time: number;
+  hz: number | null;
+}
+
+// Children speak higher than adults; this covers a deep adult voice up to a young child's squeal
+const MIN_HZ = 70;
+const MAX_HZ = 600;
+// Audio is averaged down to about this rate first; plenty for a voice and much faster
+const ANALYSIS_RATE = 16000;
+const FRAME_SECONDS = 0.032;
+const HOP_SECONDS = 0.02;
+// How clearly periodic a frame must be, as a YIN dip (lower is stricter)
+const YIN_THRESHOLD = 0.15;
+// A whole recording is tracked in slices of this much work, so the page stays responsive
+const SLICE_MS = 12;
+
+/** The first channel averaged down to roughly ANALYSIS_RATE. */
+function downsample(buffer: AudioBuffer): { samples: Float32Array; sampleRate: number } {
+  const input = buffer.getChannelData(0);
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { samples: input, sampleRate: buffer.sampleRate };
+  const samples = new Float32Array(Math.floor(input.length / factor));
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += input[i * factor + j];
+    samples[i] = sum / factor;
+  }
+  return { samples, sampleRate: buffer.sampleRate / factor };
+}
+
+/** Pitch of one frame in Hz, or null when it is not clearly voiced. */
+function framePitch(samples: Float32Array, start: number, size: number, sampleRate: number, diff: Float32Array): number | null {
+  let energy = 0;
+  for (let i = start; i < start + size; i++) energy += samples[i] * samples[i];
+  if (Math.sqrt(energy / size) < SPEECH_RMS_FLOOR) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_HZ);
+  const maxLag = Math.min(diff.length - 1, Math.ceil(sampleRate / MIN_HZ));
+  const window = size - maxLag;
+
+  // Cumulative mean normalized difference
+  let running = 0;
+  diff[0] = 1;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < window; i++) {
+      const d = samples[start + i] - samples[start + i + lag];
+      sum += d * d;
+    }
+    running += sum;
+    diff[lag] = running ? (sum * lag) / running : 1;
+  }
+
+  for (let lag = minLag; lag < maxLag; lag++) {
+    if (diff[lag] >= YIN_THRESHOLD) continue;
+    while (lag + 1 < maxLag && diff[lag + 1] < diff[lag]) lag++;
+    // Parabolic interpolation between the neighbouring lags
+    const [a, b, c] = [diff[lag - 1], diff[lag], diff[lag + 1]];
+    const shift = (a - c) / (2 * (a - 2 * b + c)) || 0;
+    return sampleRate / (lag + Math.max(-1, Math.min(1, shift)));
+  }
+  return null;
+}
+
+/** Walks the frames of the recording (or a stretch of it) one at a time. */
+function pitchScanner(buffer: AudioBuffer, range?: TimeRange) {
+  const { samples, sampleRate } = downsample(buffer);
+  const size = Math.round(sampleRate * FRAME_SECONDS);
+  const hop = Math.round(sampleRate * HOP_SECONDS);
+  const diff = new Float32Array(Math.ceil(sampleRate / MIN_HZ) + 1);
+  const last = range ? Math.min(samples.length, Math.ceil(range.end * sampleRate)) : samples.length;
+  let start = range ? Math.max(0, Math.floor(range.start * sampleRate)) : 0;
+  const points: PitchPoint[] = [];
+  return {
+    points,
+    done: () => start + size > last,
+    step: () => {
+      points.push({ time: start / sampleRate, hz: framePitch(samples, start, size, sampleRate, diff) });
+      start += hop;
+    },
+  };
+}
+
+/** Pitch every HOP_SECONDS through the recording, or through the given stretch of it. */
+export function trackPitch(buffer: AudioBuffer, range?: TimeRange): PitchPoint[] {
+  const scanner = pitchScanner(buffer, range);
+  while (!scanner.done()) scanner.step();
+  return scanner.points;
+}
+
+/**
+ * trackPitch for whole recordings: minutes of audio take seconds to track,
+ * so the work is cut into slices with a break for the page in between.
+ * Rejects when the signal is aborted.
+ */
+export async function trackPitchInSlices(buffer: AudioBuffer, signal?: AbortSignal): Promise<PitchPoint[]> {
+  const scanner = pitchScanner(buffer);
+  while (!scanner.done()) {
+    const sliceEnd = performance.now() + SLICE_MS;
+    while (!scanner.done() && performance.now() < sliceEnd) scanner.step();
+    await sleep(0, signal);
+  }
+  return scanner.points;
+}
+
+/** Distance from the reference pitch in semitones. */
+export const toSemitones = (hz: number, referenceHz: number) => 12 * Math.log2(hz / referenceHz);
+
+/** Median of each point and its neighbours, which removes single-frame octave jumps. */
+export function smoothPitch(points: PitchPoint[], radius = 2): PitchPoint[] {
+  return points.map((point, i) => {
+    if (point.hz === null) return point;
+    const around = points.slice(Math.max(0, i - radius), i + radius + 1).flatMap(p => p.hz === null ? [] : [p.hz]).sort((a, b) => a - b);
+    return { time: point.time, hz: around[Math.floor(around.length / 2)] };
+  });
+}
+
+/** The middle voiced pitch, used as the speaker's own reference. */
+export function medianPitch(points: PitchPoint[]): number | null {
+  const voiced = points.flatMap(p => p.hz === null ? [] : [p.hz]).sort((a, b) => a - b);
+  return voiced.length ? voiced[Math.floor(voiced.length / 2)] : null;
+}
+
+export type PitchMovement = 'rising' | 'falling' | 'level';
+
+// A change smaller than this many semitones at the end of a sentence is not heard as a rise or fall
+const MOVEMENT_SEMITONES = 1.5;
+
+/** Whether the voice goes up or down over the last part of what was said. */
+export function endingMovement(points: PitchPoint[]): PitchMovement | null {
+  const voiced = points.flatMap(p => p.hz === null ? [] : [p.hz]);
+  if (voiced.length < 10) return null;
+  const tail = Math.max(3, Math.floor(voiced.length / 5));
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const change = toSemitones(mean(voiced.slice(-tail)), mean(voiced.slice(-2 * tail, -tail)));
+  return change >= MOVEMENT_SEMITONES ? 'rising' : change <= -MOVEMENT_SEMITONES ? 'falling' : 'level';
+}
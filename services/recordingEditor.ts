@@ -0,0 +1,84 @@
+import { encodeWav } from "./audioUtils";
+import { TimeRange } from "./speechAlignment";
+
+// =============================================
+// RECORDING TRIM EDITOR
+// Keeps the part of a recording between the trim handles, minus any cut
+// sections, and re-encodes it as WAV. Edits always start from the
+// original recording, so they can be undone.
+// =============================================
+
+export interface RecordingEdit {
+  start: number;
+  end: number;
+  // Sections removed from the middle, in the original recording's time
+  cuts: TimeRange[];
+}
+
+// Pieces shorter than this are dropped rather than kept as a click
+const MIN_PIECE_SECONDS = 0.05;
+
+export const uneditedRecording = (duration: number): RecordingEdit => ({ start: 0, end: duration, cuts: [] });
+
+export const isEdited = (edit: RecordingEdit, duration: number) =>
+  edit.start > 0 || edit.end < duration || edit.cuts.length > 0;
+
+/** The parts of the original recording that stay, in order. */
+export function keptRanges(edit: RecordingEdit): TimeRange[] {
+  const cuts = [...edit.cuts].sort((a, b) => a.start - b.start);
+  const kept: TimeRange[] = [];
+  let from = edit.start;
+  for (const cut of cuts) {
+    if (cut.end <= from) continue;
+    if (cut.start >= edit.end) break;
+    if (cut.start - from >= MIN_PIECE_SECONDS) kept.push({ start: from, end: cut.start });
+    from = Math.max(from, cut.end);
+  }
+  if (edit.end - from >= MIN_PIECE_SECONDS) kept.push({ start: from, end: edit.end });
+  return kept;
+}
+
+export const editedDuration = (edit: RecordingEdit) =>
+  keptRanges(edit).reduce((sum, r) => sum + (r.end - r.start), 0);
+
+/** Where a moment of the edited recording falls in the original one. */
+export function toOriginalTime(edit: RecordingEdit, editedTime: number): number {
+  const kept = keptRanges(edit);
+  for (const range of kept) {
+    const length = range.end - range.start;
+    if (editedTime <= length) return range.start + editedTime;
+    editedTime -= length;
+  }
+  return kept.length ? kept[kept.length - 1].end : edit.start;
+}
+
+/** The kept parts of the first channel, joined end to end. */
+export function editedSamples(buffer: AudioBuffer, edit: RecordingEdit): Float32Array {
+  const source = buffer.getChannelData(0);
+  const pieces = keptRanges(edit).map(r =>
+    source.subarray(Math.floor(r.start * buffer.sampleRate), Math.min(source.length, Math.ceil(r.end * buffer.sampleRate))));
+  const joined = new Float32Array(pieces.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const piece of pieces) {
+    joined.set(piece, offset);
+    offset += piece.length;
+  }
+  return joined;
+}
+
+export const applyEdit = (buffer: AudioBuffer, edit: RecordingEdit): Blob =>
+  encodeWav(editedSamples(buffer, edit), buffer.sampleRate);
+
+/** Loudest sample in each of `bins` equal slices of the recording, for drawing the waveform. */
+export function waveformPeaks(buffer: AudioBuffer, bins: number): number[] {
+  const samples = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(samples.length / bins));
+  const peaks: number[] = [];
+  for (let bin = 0; bin < bins; bin++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bin + 1) * size);
+    for (let i = bin * size; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks.push(peak);
+  }
+  return peaks;
+}
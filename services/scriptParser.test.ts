@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { fillVocabIpa, missingIpaWords, parsePartialScript, parseScriptDraft, ScriptFormatError } from './scriptParser';
+
+describe('parseScriptDraft', () => {
+  it('reads JSON wrapped in code fences and chatter', () => {
+    const draft = parseScriptDraft('Here you go:\n```json\n{"intro": "Hello!", "points": ["I like cats."], "conclusion": "Bye!", "lessonVocab": []}\n```');
+    expect(draft).toEqual({ intro: 'Hello!', points: ['I like cats.'], conclusion: 'Bye!', lessonVocab: [] });
+  });
+
+  it('splits a body given as one string into sentences', () => {
+    const draft = parseScriptDraft('{"intro": "Hi.", "points": "This is a cat. It can run!"}');
+    expect(draft.points).toEqual(['This is a cat.', 'It can run!']);
+  });
+
+  it('takes the first point as the intro when the intro is missing', () => {
+    const draft = parseScriptDraft('{"points": ["Hello, I am Lan.", "This is my dog."]}');
+    expect(draft.intro).toBe('Hello, I am Lan.');
+    expect(draft.points).toEqual(['This is my dog.']);
+  });
+
+  it('fills in a default conclusion and vocabulary icon', () => {
+    const draft = parseScriptDraft('{"intro": "Hi.", "points": ["A cat."], "lessonVocab": [{"word": "cat", "translation": "con mèo", "ipa": "/kæt/"}, {"translation": "no word"}, null]}');
+    expect(draft.conclusion).toBe('Thank you for listening!');
+    expect(draft.lessonVocab).toEqual([{ word: 'cat', translation: 'con mèo', ipa: '/kæt/', icon: '📘' }]);
+  });
+
+  it('rejects answers that are not JSON', () => {
+    expect(() => parseScriptDraft('Sorry, I cannot help.')).toThrow(ScriptFormatError);
+    try {
+      parseScriptDraft('Sorry, I cannot help.');
+    } catch (err) {
+      expect((err as ScriptFormatError).reason).toBe('not-json');
+      expect((err as ScriptFormatError).kind).toBe('malformed-output');
+    }
+  });
+
+  it('rejects an empty script', () => {
+    expect(() => parseScriptDraft('{"intro": "", "points": []}')).toThrow(expect.objectContaining({ reason: 'empty-script' }));
+  });
+});
+
+describe('vocabulary IPA', () => {
+  const vocab = [
+    { word: 'Cat', translation: 'con mèo', icon: '🐱' },
+    { word: 'dog', translation: 'con chó', ipa: '/dɒɡ/', icon: '🐶' },
+  ];
+
+  it('lists the words without IPA', () => {
+    expect(missingIpaWords(vocab)).toEqual(['Cat']);
+  });
+
+  it('fills missing IPA from cards for the same word, ignoring case', () => {
+    const filled = fillVocabIpa(vocab, [{ word: 'cat', translation: '', ipa: '/kæt/', icon: '' }]);
+    expect(filled.map(v => v.ipa)).toEqual(['/kæt/', '/dɒɡ/']);
+    expect(missingIpaWords(filled)).toEqual([]);
+  });
+});
+
+describe('parsePartialScript', () => {
+  it('keeps only the values that are complete so far', () => {
+    const partial = parsePartialScript('{"intro": "Hello!", "points": ["One.", "Tw');
+    expect(partial.intro).toBe('Hello!');
+    expect(partial.points).toEqual(['One.']);
+    expect(partial.conclusion).toBeUndefined();
+  });
+});
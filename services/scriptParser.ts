@@ -0,0 +1,197 @@
+import { PresentationDraft, ScriptSentence, VocabularyItem } from "../types";
+import { AIError } from "./aiErrors";
+
+// =============================================
+// SCRIPT VALIDATION & REPAIR
+// Turns raw model output into a PresentationDraft, fixing the faults we
+// see in practice and rejecting answers that cannot be repaired.
+// =============================================
+
+export type ScriptFormatReason = 'not-json' | 'empty-script';
+
+export class ScriptFormatError extends AIError {
+  reason: ScriptFormatReason;
+
+  constructor(reason: ScriptFormatReason, detail: string) {
+    super('malformed-output', detail, `📝 AI soạn bài bị lỗi định dạng (${detail}). Bé hãy nhấn "Thử lại" để AI soạn bài mới nhé!`);
+    this.name = 'ScriptFormatError';
+    this.reason = reason;
+  }
+}
+
+const DEFAULT_CONCLUSION = 'Thank you for listening!';
+const DEFAULT_VOCAB_ICON = '📘';
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/** Strips ```json fences and any chatter around the outermost JSON object. */
+function extractJson(text: string): string {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+}
+
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || []).map(s => s.trim()).filter(Boolean);
+
+function repairPoints(value: unknown): string[] {
+  // Some answers put the whole body into one string instead of an array
+  if (typeof value === 'string') return splitSentences(value);
+  if (!Array.isArray(value)) return [];
+  return value.map(asText).filter(Boolean);
+}
+
+function repairVocab(value: unknown): VocabularyItem[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map(item => ({
+      word: asText(item.word),
+      translation: asText(item.translation),
+      ipa: asText(item.ipa) || undefined,
+      icon: asText(item.icon) || DEFAULT_VOCAB_ICON,
+    }))
+    .filter(item => item.word);
+}
+
+/** Vocabulary words the model gave no IPA for. */
+export const missingIpaWords = (vocab: VocabularyItem[]): string[] =>
+  vocab.filter(item => !item.ipa).map(item => item.word);
+
+/** Fills the missing IPA of each card from a card for the same word in `source`. */
+export function fillVocabIpa(vocab: VocabularyItem[], source: VocabularyItem[]): VocabularyItem[] {
+  const ipaOf = new Map(source.filter(item => item.ipa).map(item => [item.word.toLowerCase(), item.ipa]));
+  return vocab.map(item => item.ipa ? item : { ...item, ipa: ipaOf.get(item.word.toLowerCase()) });
+}
+
+export function parseScriptDraft(text: string): PresentationDraft {
+  let raw: any;
+  try {
+    raw = JSON.parse(extractJson(text || ''));
+  } catch {
+    throw new ScriptFormatError('not-json', 'không phải JSON');
+  }
+  if (!raw || typeof raw !== 'object') {
+    throw new ScriptFormatError('not-json', 'không phải JSON');
+  }
+
+  const points = repairPoints(raw.points);
+  let intro = asText(raw.intro);
+  if (!intro && points.length > 1) intro = points.shift()!;
+
+  if (!intro && points.length === 0) {
+    throw new ScriptFormatError('empty-script', 'kịch bản trống');
+  }
+
+  return {
+    intro,
+    points,
+    conclusion: asText(raw.conclusion) || DEFAULT_CONCLUSION,
+    lessonVocab: repairVocab(raw.lessonVocab),
+  };
+}
+
+export const composeScript = (draft: PresentationDraft): string =>
+  [draft.intro, ...draft.points, draft.conclusion].filter(Boolean).join(' ');
+
+/** The script in reading order, one entry per sentence, each tagged with the part it belongs to. */
+export const splitScriptSentences = (draft: PresentationDraft): ScriptSentence[] => [
+  ...splitSentences(draft.intro).map(text => ({ part: 'intro' as const, text })),
+  ...draft.points.flatMap(point => splitSentences(point).map(text => ({ part: 'point' as const, text }))),
+  ...splitSentences(draft.conclusion).map(text => ({ part: 'conclusion' as const, text })),
+];
+
+export const splitWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// =============================================
+// PARTIAL (STREAMING) PARSING
+// =============================================
+
+// Only values that are already complete in the stream are filled in
+export interface PartialScript {
+  intro?: string;
+  points: string[];
+  conclusion?: string;
+  lessonVocab: VocabularyItem[];
+}
+
+const STRING_LITERAL = /"(?:[^"\\]|\\.)*"/y;
+
+function readString(text: string, from: number): { value: string; end: number } | null {
+  STRING_LITERAL.lastIndex = from;
+  const match = STRING_LITERAL.exec(text);
+  if (!match) return null;
+  try {
+    return { value: JSON.parse(match[0]), end: STRING_LITERAL.lastIndex };
+  } catch {
+    return null;
+  }
+}
+
+const skipSpace = (text: string, from: number) => {
+  while (from < text.length && /[\s,]/.test(text[from])) from++;
+  return from;
+};
+
+/** Index right after `"key":` (and an opening bracket if given), or -1. */
+function valueStart(text: string, key: string, bracket = ''): number {
+  const match = new RegExp(`"${key}"\\s*:\\s*${bracket ? `\\${bracket}` : ''}`).exec(text);
+  return match ? skipSpace(text, match.index + match[0].length) : -1;
+}
+
+function readStringArray(text: string, from: number): string[] {
+  const items: string[] = [];
+  let pos = from;
+  while (pos < text.length && text[pos] === '"') {
+    const item = readString(text, pos);
+    if (!item) break;
+    items.push(item.value.trim());
+    pos = skipSpace(text, item.end);
+  }
+  return items.filter(Boolean);
+}
+
+function readObjectArray(text: string, from: number): unknown[] {
+  const objects: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') { if (depth++ === 0) start = i; }
+    else if (ch === '}' && --depth === 0) {
+      try { objects.push(JSON.parse(text.slice(start, i + 1))); } catch { /* skip broken item */ }
+    }
+    else if (ch === ']' && depth === 0) break;
+  }
+  return objects;
+}
+
+/** Extracts whatever is already usable from a half-received script answer. */
+export function parsePartialScript(text: string): PartialScript {
+  const partial: PartialScript = { points: [], lessonVocab: [] };
+
+  const introAt = valueStart(text, 'intro');
+  const intro = introAt >= 0 ? readString(text, introAt) : null;
+  if (intro) partial.intro = intro.value.trim();
+
+  const pointsAt = valueStart(text, 'points', '[');
+  if (pointsAt >= 0) partial.points = readStringArray(text, pointsAt);
+
+  const conclusionAt = valueStart(text, 'conclusion');
+  const conclusion = conclusionAt >= 0 ? readString(text, conclusionAt) : null;
+  if (conclusion) partial.conclusion = conclusion.value.trim();
+
+  const vocabAt = valueStart(text, 'lessonVocab', '[');
+  if (vocabAt >= 0) partial.lessonVocab = repairVocab(readObjectArray(text, vocabAt));
+
+  return partial;
+}
@@ -0,0 +1,65 @@
+import { CEFRLevel, EvaluationResult } from "../types";
+import { getCurriculumLevel } from "../curriculum";
+import { splitWords } from "./scriptParser";
+
+// =============================================
+// SHADOWING PRACTICE
+// The child repeats the script after the teacher one sentence at a time.
+// Each take is scored on its own; the takes are then compiled into one
+// EvaluationResult for the result screen and certificate.
+// =============================================
+
+// Takes scoring below this are offered for another try
+export const WEAK_TAKE_SCORE = 6;
+
+export interface ShadowingTake {
+  sentence: string;
+  result: EvaluationResult;
+}
+
+export const isWeakTake = (result: EvaluationResult) => result.score < WEAK_TAKE_SCORE;
+
+/** How long to record a sentence: the slowest comfortable pace for the level, plus time to start. */
+export function takeDurationMs(sentence: string, level: CEFRLevel): number {
+  const words = splitWords(sentence).length;
+  const seconds = (words / getCurriculumLevel(level).speakingPace.min) * 60;
+  return Math.round((seconds * 1.5 + 2) * 1000);
+}
+
+type ScoreKey = 'pronunciation' | 'fluency' | 'intonation' | 'vocabulary' | 'grammar' | 'taskFulfillment';
+const SCORE_KEYS: ScoreKey[] = ['pronunciation', 'fluency', 'intonation', 'vocabulary', 'grammar', 'taskFulfillment'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** One result for the whole script; longer sentences weigh more in every score. */
+export function compileShadowingResult(takes: ShadowingTake[], level: CEFRLevel): EvaluationResult {
+  const weights = takes.map(take => Math.max(1, splitWords(take.sentence).length));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const weighted = (key: ScoreKey) =>
+    round1(takes.reduce((sum, take, i) => sum + take.result[key] * weights[i], 0) / totalWeight);
+
+  const scores = Object.fromEntries(SCORE_KEYS.map(key => [key, weighted(key)])) as Record<ScoreKey, number>;
+  const score = round1(SCORE_KEYS.reduce((sum, key) => sum + scores[key], 0) / SCORE_KEYS.length);
+
+  const byScore = [...takes].sort((a, b) => b.result.score - a.result.score);
+  const best = byScore[0];
+  const weakest = byScore[byScore.length - 1];
+  const weakCount = takes.filter(take => isWeakTake(take.result)).length;
+
+  const summary = weakCount === 0
+    ? `Bé đã nói theo cô cả ${takes.length} câu, câu nào cũng tốt! 🌟`
+    : `Bé đã nói theo cô ${takes.length} câu, còn ${weakCount} câu cần luyện thêm, ví dụ: "${weakest.sentence}"`;
+
+  return {
+    ...scores,
+    score,
+    perceivedLevel: level,
+    mistakes: takes.flatMap(take => take.result.mistakes || []),
+    feedback: [summary, weakest.result.feedback].filter(Boolean).join(' '),
+    teacherPraise: best.result.teacherPraise,
+    transcript: takes.map(take => take.result.transcript).filter(Boolean).join(' '),
+    suggestions: [...new Set(takes.flatMap(take => take.result.suggestions || []))].slice(0, 3),
+    keyVocabulary: [],
+    evaluationDate: new Date().toLocaleDateString('vi-VN')
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { alignSentences, detectSpeechSegments, isMistakeWord, mistakesInSentence, TimeRange } from './speechAlignment';
+import { SpeakingMistake } from '../types';
+
+const SAMPLE_RATE = 1000;
+
+/** A mono recording with a loud tone during the given stretches and near silence elsewhere. */
+function fakeRecording(seconds: number, speech: TimeRange[]): AudioBuffer {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    const loud = speech.some(r => time >= r.start && time < r.end);
+    samples[i] = (loud ? 0.5 : 0.001) * Math.sin(i);
+  }
+  return { sampleRate: SAMPLE_RATE, duration: seconds, getChannelData: () => samples } as unknown as AudioBuffer;
+}
+
+describe('detectSpeechSegments', () => {
+  it('finds the stretches of speech between pauses', () => {
+    const segments = detectSpeechSegments(fakeRecording(5, [{ start: 0.5, end: 1.5 }, { start: 2.5, end: 4 }]));
+    expect(segments).toHaveLength(2);
+    expect(segments[0].start).toBeCloseTo(0.5, 1);
+    expect(segments[0].end).toBeCloseTo(1.5, 1);
+    expect(segments[1].start).toBeCloseTo(2.5, 1);
+    expect(segments[1].end).toBeCloseTo(4, 1);
+  });
+
+  it('bridges pauses too short to be a break', () => {
+    expect(detectSpeechSegments(fakeRecording(3, [{ start: 0.5, end: 1 }, { start: 1.1, end: 2 }]))).toHaveLength(1);
+  });
+});
+
+describe('alignSentences', () => {
+  const segments = [{ start: 1, end: 3 }, { start: 4, end: 6 }];
+
+  it('moves sentence boundaries to the pause between them', () => {
+    const ranges = alignSentences(['I like cats.', 'They are soft.'], segments, 'I like cats they are soft');
+    expect(ranges).toEqual([{ start: 1, end: 3.5 }, { start: 3.5, end: 6 }]);
+  });
+
+  it('leaves the sentences the child did not get to without a range', () => {
+    const ranges = alignSentences(['I like cats.', 'They are soft.'], segments, 'I like cats');
+    expect(ranges[0]).toEqual({ start: 1, end: 6 });
+    expect(ranges[1]).toBeNull();
+  });
+
+  it('gives no ranges for a silent recording', () => {
+    expect(alignSentences(['Hello.'], [], 'hello')).toEqual([null]);
+  });
+});
+
+describe('mistakes by sentence', () => {
+  const mistakes: SpeakingMistake[] = [{ word: 'Elephant', type: 'mispronunciation', feedback: '' }];
+
+  it('matches mistakes to words whatever the case and punctuation', () => {
+    expect(mistakesInSentence('This is an elephant!', mistakes)).toEqual(mistakes);
+    expect(mistakesInSentence('This is a cat.', mistakes)).toEqual([]);
+    expect(isMistakeWord('elephant,', mistakes)).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { SpeakingMistake } from "../types";
+import { splitWords } from "./scriptParser";
+
+// =============================================
+// SENTENCE ALIGNMENT OF THE CHILD'S RECORDING
+// Finds where each script sentence was spoken in the recording, so it can
+// be replayed right after the teacher's version. Pauses are found from the
+// signal energy; the transcript tells how much of the script was read.
+// =============================================
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const FRAME_SECONDS = 0.02;
+// Pauses shorter than this are part of the same stretch of speech
+const MIN_PAUSE_SECONDS = 0.25;
+// A sentence boundary moves to a pause at most this far away
+const SNAP_SECONDS = 1.2;
+
+/** Root-mean-square level of each 20 ms frame of the first channel. */
+export function frameLevels(buffer: AudioBuffer, frameSeconds = FRAME_SECONDS): number[] {
+  const samples = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * frameSeconds));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(Math.sqrt(sum / (end - start)));
+  }
+  return levels;
+}
+
+/** Stretches of speech in the recording, separated by pauses of at least MIN_PAUSE_SECONDS. */
+export function detectSpeechSegments(buffer: AudioBuffer): TimeRange[] {
+  const levels = frameLevels(buffer);
+  if (levels.length === 0) return [];
+
+  // The quietest tenth of the recording is taken as the room noise
+  const sorted = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const peak = sorted[sorted.length - 1];
+  const threshold = Math.max(noiseFloor * 3, peak * 0.1, 0.005);
+
+  const segments: TimeRange[] = [];
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i] < threshold) continue;
+    const time = i * FRAME_SECONDS;
+    const last = segments[segments.length - 1];
+    if (last && time - last.end < MIN_PAUSE_SECONDS) last.end = time + FRAME_SECONDS;
+    else segments.push({ start: time, end: time + FRAME_SECONDS });
+  }
+  return segments;
+}
+
+/**
+ * The part of the recording that belongs to each sentence, or null for
+ * sentences the child did not get to. Speaking time is shared out by word
+ * count, and every boundary is moved to the nearest pause.
+ */
+export function alignSentences(sentences: string[], segments: TimeRange[], transcript: string): (TimeRange | null)[] {
+  if (segments.length === 0) return sentences.map(() => null);
+
+  const wordCounts = sentences.map(s => Math.max(1, splitWords(s).length));
+  const scriptWords = wordCounts.reduce((sum, n) => sum + n, 0);
+  const spokenWords = Math.min(scriptWords, splitWords(transcript).length || scriptWords);
+
+  // Sentences covered by the transcript, by word count
+  let covered = 0;
+  let wordsSoFar = 0;
+  while (covered < sentences.length && wordsSoFar < spokenWords) wordsSoFar += wordCounts[covered++];
+
+  const speechTotal = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+  // Maps a share of the speaking time back onto the recording's timeline
+  const timeAtSpeech = (speechTime: number) => {
+    for (const segment of segments) {
+      const length = segment.end - segment.start;
+      if (speechTime <= length) return segment.start + speechTime;
+      speechTime -= length;
+    }
+    return segments[segments.length - 1].end;
+  };
+  const pauses = segments.slice(1).map((segment, i) => (segments[i].end + segment.start) / 2);
+  const snap = (time: number) => {
+    const nearest = pauses.reduce<number | null>((best, p) => best === null || Math.abs(p - time) < Math.abs(best - time) ? p : best, null);
+    return nearest !== null && Math.abs(nearest - time) <= SNAP_SECONDS ? nearest : time;
+  };
+
+  const coveredWords = wordCounts.slice(0, covered).reduce((sum, n) => sum + n, 0);
+  const boundaries = [segments[0].start];
+  let cumulative = 0;
+  for (let i = 0; i < covered - 1; i++) {
+    cumulative += wordCounts[i];
+    boundaries.push(Math.max(boundaries[i], snap(timeAtSpeech((cumulative / coveredWords) * speechTotal))));
+  }
+  boundaries.push(segments[segments.length - 1].end);
+
+  return sentences.map((_, i) => i < covered ? { start: boundaries[i], end: boundaries[i + 1] } : null);
+}
+
+/** Lower case, letters and apostrophes only, so "Hello," matches "hello". */
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z']/g, '');
+
+/** Mistakes whose word appears in the sentence. */
+export function mistakesInSentence(sentence: string, mistakes: SpeakingMistake[]): SpeakingMistake[] {
+  const words = new Set(splitWords(sentence).map(normalizeWord));
+  return mistakes.filter(m => splitWords(m.word).some(w => words.has(normalizeWord(w))));
+}
+
+export const isMistakeWord = (word: string, mistakes: SpeakingMistake[]) =>
+  mistakes.some(m => splitWords(m.word).some(w => normalizeWord(w) === normalizeWord(word)));
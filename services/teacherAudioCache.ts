@@ -0,0 +1,80 @@
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import { TeacherVoice } from "./voiceCatalog";
+
+// =============================================
+// PERSISTENT TEACHER AUDIO CACHE
+// Synthesized PCM survives reloads, so revisiting a script costs no TTS.
+// The audio and its bookkeeping live in separate stores: eviction only
+// has to read the small metadata records, never the audio itself.
+// =============================================
+
+export interface CachedSpeechMeta {
+  key: string;
+  text: string;
+  voiceName: string;
+  bytes: number;
+  lastUsedAt: number;
+}
+
+export interface AudioCacheSummary {
+  entries: number;
+  bytes: number;
+}
+
+export const DEFAULT_AUDIO_CACHE_LIMIT_MB = 50;
+
+// `source` names the provider and TTS model, so mock beeps never stand in for a real voice
+const speechKey = (text: string, voice: TeacherVoice, source: string) => `${source}|${voice.voiceName}|${voice.instruction}|${text}`;
+
+export function getAudioCacheLimitMb(): number {
+  const stored = parseFloat(localStorage.getItem('teacher_audio_cache_mb') || '');
+  return stored > 0 ? stored : DEFAULT_AUDIO_CACHE_LIMIT_MB;
+}
+
+export function setAudioCacheLimitMb(limitMb: number | null) {
+  if (limitMb && limitMb > 0) localStorage.setItem('teacher_audio_cache_mb', String(limitMb));
+  else localStorage.removeItem('teacher_audio_cache_mb');
+}
+
+/** Stored PCM for this text in this voice from this source, or null. A hit counts as a use for eviction. */
+export async function getCachedSpeech(text: string, voice: TeacherVoice, source: string): Promise<Uint8Array | null> {
+  const key = speechKey(text, voice, source);
+  const [pcm, meta] = await Promise.all([
+    idbGet<Uint8Array>('tts-audio', key),
+    idbGet<CachedSpeechMeta>('tts-meta', key),
+  ]);
+  if (!pcm || !meta) return null;
+  idbPut('tts-meta', key, { ...meta, lastUsedAt: Date.now() }).catch(() => { });
+  return pcm;
+}
+
+export async function putCachedSpeech(text: string, voice: TeacherVoice, source: string, pcm: Uint8Array) {
+  const key = speechKey(text, voice, source);
+  const meta: CachedSpeechMeta = { key, text, voiceName: voice.voiceName, bytes: pcm.byteLength, lastUsedAt: Date.now() };
+  await idbPut('tts-audio', key, pcm);
+  await idbPut('tts-meta', key, meta);
+  await evictAudioCache();
+}
+
+/** Drops the least recently used audio until the cache fits its size limit. */
+export async function evictAudioCache(limitBytes = getAudioCacheLimitMb() * 1024 * 1024) {
+  const metas = await idbGetAll<CachedSpeechMeta>('tts-meta');
+  let total = metas.reduce((sum, m) => sum + m.bytes, 0);
+  const oldestFirst = [...metas].sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const meta of oldestFirst) {
+    if (total <= limitBytes) break;
+    await idbDelete('tts-audio', meta.key);
+    await idbDelete('tts-meta', meta.key);
+    total -= meta.bytes;
+  }
+}
+
+export async function summarizeAudioCache(): Promise<AudioCacheSummary> {
+  const metas = await idbGetAll<CachedSpeechMeta>('tts-meta');
+  return { entries: metas.length, bytes: metas.reduce((sum, m) => sum + m.bytes, 0) };
+}
+
+export async function clearAudioCache() {
+  await idbClear('tts-audio');
+  await idbClear('tts-meta');
+}
@@ -0,0 +1,158 @@
+import { TokenUsage } from "./aiProvider";
+import { idbClear, idbDelete, idbGetAll, idbPut } from "./idb";
+import { AIError } from "./aiErrors";
+
+// =============================================
+// API USAGE & COST TRACKER
+// Every callWithRetry run leaves one record in IndexedDB so the center can
+// see what a lesson really costs and cap the daily spend.
+// =============================================
+
+export type UsageStatus = 'ok' | 'error' | 'cancelled';
+
+export interface UsageRecord {
+  id: string;
+  // Epoch milliseconds of the start of the call
+  at: number;
+  task: string;
+  provider: string;
+  // Model that produced the final answer (or the last one tried)
+  model: string;
+  // Models that failed before it, in order
+  fallbacks: string[];
+  attempts: number;
+  latencyMs: number;
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  status: UsageStatus;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+}
+
+export interface UsageSummary {
+  days: DailyUsage[];
+  models: ModelUsage[];
+  today: UsageTotals;
+}
+
+// Records older than this are dropped when the log is read
+const RETENTION_DAYS = 90;
+
+/**
+ * Published list prices in USD per million tokens. Audio input is billed
+ * higher than text on some models, so costs are estimates, not invoices.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20 },
+};
+
+// Models without a published price (picked from model discovery) are counted
+// at the dearest known rate, so the daily budget still trips for them
+const UNKNOWN_MODEL_PRICE = {
+  input: Math.max(...Object.values(MODEL_PRICING).map(p => p.input)),
+  output: Math.max(...Object.values(MODEL_PRICING).map(p => p.output)),
+};
+
+export const estimateCost = ({ model, promptTokens, outputTokens }: TokenUsage): number => {
+  const price = MODEL_PRICING[model] ?? UNKNOWN_MODEL_PRICE;
+  return (promptTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+/** Local calendar day as YYYY-MM-DD, so "today" follows the center's clock. */
+export const dayKey = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export function recordUsage(record: Omit<UsageRecord, 'id'>): Promise<void> {
+  const id = `${record.at}-${Math.random().toString(36).slice(2, 8)}`;
+  return idbPut('usage', id, { ...record, id })
+    .then(() => undefined)
+    .catch(err => console.warn('[SpeakPro] Usage record failed:', err));
+}
+
+async function loadRecords(): Promise<UsageRecord[]> {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const records = await idbGetAll<UsageRecord>('usage');
+  const expired = records.filter(r => r.at < cutoff);
+  await Promise.all(expired.map(r => idbDelete('usage', r.id)));
+  return records.filter(r => r.at >= cutoff);
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, failures: 0, tokens: 0, costUsd: 0 });
+
+function addTo(totals: UsageTotals, r: UsageRecord) {
+  totals.calls++;
+  if (r.status === 'error') totals.failures++;
+  totals.tokens += r.promptTokens + r.outputTokens;
+  totals.costUsd += r.costUsd;
+}
+
+/** Per-day totals for the last `days` days (newest first) and per-model totals over the same window. */
+export async function summarizeUsage(days = 7): Promise<UsageSummary> {
+  const records = await loadRecords();
+  const dayList = Array.from({ length: days }, (_, i) => dayKey(Date.now() - i * 24 * 60 * 60 * 1000));
+  const byDay = new Map<string, DailyUsage>(dayList.map(day => [day, { day, ...emptyTotals() }]));
+  const byModel = new Map<string, ModelUsage>();
+
+  records.forEach(r => {
+    const daily = byDay.get(dayKey(r.at));
+    if (!daily) return;
+    addTo(daily, r);
+    if (!byModel.has(r.model)) byModel.set(r.model, { model: r.model, ...emptyTotals() });
+    addTo(byModel.get(r.model)!, r);
+  });
+
+  const today = byDay.get(dayList[0])!;
+  return {
+    days: [...byDay.values()],
+    models: [...byModel.values()].sort((a, b) => b.costUsd - a.costUsd),
+    today,
+  };
+}
+
+export const clearUsage = () => idbClear('usage');
+
+// =============================================
+// DAILY BUDGET
+// =============================================
+
+/** Daily spending cap in USD, or null when there is none. */
+export function getDailyBudget(): number | null {
+  const value = parseFloat(localStorage.getItem('daily_budget_usd') || '');
+  return value > 0 ? value : null;
+}
+
+export function setDailyBudget(budget: number | null) {
+  if (budget && budget > 0) localStorage.setItem('daily_budget_usd', String(budget));
+  else localStorage.removeItem('daily_budget_usd');
+}
+
+/** Throws when today's estimated spend has reached the daily budget. */
+export async function ensureWithinBudget() {
+  const budget = getDailyBudget();
+  if (budget === null) return;
+  const { today } = await summarizeUsage(1);
+  if (today.costUsd >= budget) {
+    throw new AIError('budget', `spent $${today.costUsd.toFixed(2)} of the $${budget.toFixed(2)} daily budget`);
+  }
+}
@@ -0,0 +1,119 @@
+// =============================================
+// VOICE ACTIVITY DETECTION
+// Fed with the mic level many times a second while recording. Tells when
+// the child starts and stops speaking, when the recording can stop by
+// itself, and whether the voice is too quiet, too loud or clipping.
+// =============================================
+
+export type LoudnessWarning = 'quiet' | 'loud' | 'clipping';
+
+// One reading of the mic: RMS and absolute peak of the latest samples (0..1)
+export interface VadFrame {
+  rms: number;
+  peak: number;
+}
+
+export interface VadState {
+  speaking: boolean;
+  // Whether the child has said anything since recording started
+  heardSpeech: boolean;
+  // Set on the one reading where the first speech is heard: time to start the recorder
+  shouldStart: boolean;
+  speechSeconds: number;
+  warning: LoudnessWarning | null;
+  // The child spoke and has now been silent for the auto-stop stretch
+  shouldStop: boolean;
+}
+
+// Speech must rise this far above the room noise, and never below the absolute minimum
+const NOISE_MARGIN = 3;
+export const SPEECH_RMS_FLOOR = 0.015;
+// Speech has to last this long to count, and a pause this long ends it
+const SPEECH_ONSET_SECONDS = 0.1;
+const SPEECH_HANGOVER_SECONDS = 0.3;
+const QUIET_RMS = 0.03;
+const LOUD_RMS = 0.35;
+const CLIPPING_PEAK = 0.99;
+// A clipping warning stays up this long so the child can see it
+const CLIPPING_HOLD_SECONDS = 1.5;
+
+// Less speech than this is treated as an empty recording and not sent for evaluation
+export const MIN_SPEECH_SECONDS = 0.5;
+
+// The recorder hears the mic this much late, so when it starts on the first
+// detected speech the recording still begins a little before the first word
+export const PRE_ROLL_SECONDS = 0.5;
+
+export const AUTO_STOP_CHOICES = [0, 2, 3, 5];
+const DEFAULT_AUTO_STOP_SECONDS = 3;
+
+/** Seconds of silence after speech that end a recording; 0 turns auto-stop off. */
+export function getAutoStopSeconds(): number {
+  const stored = localStorage.getItem('auto_stop_silence_seconds');
+  const parsed = stored === null ? NaN : Number(stored);
+  return parsed >= 0 ? parsed : DEFAULT_AUTO_STOP_SECONDS;
+}
+
+export function setAutoStopSeconds(seconds: number) {
+  localStorage.setItem('auto_stop_silence_seconds', String(seconds));
+}
+
+export const isEssentiallySilent = (state: Pick<VadState, 'heardSpeech' | 'speechSeconds'>) =>
+  !state.heardSpeech || state.speechSeconds < MIN_SPEECH_SECONDS;
+
+export function createVoiceActivityDetector(autoStopSeconds: number) {
+  let noiseFloor: number | null = null;
+  let speechLevel = 0;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let clippingFor = 0;
+  const state: VadState = { speaking: false, heardSpeech: false, shouldStart: false, speechSeconds: 0, warning: null, shouldStop: false };
+
+  /** Takes the next reading, `seconds` after the previous one. */
+  const push = ({ rms, peak }: VadFrame, seconds: number): VadState => {
+    // The floor drops at once to quiet readings and creeps up slowly, so speech does not raise it
+    noiseFloor = noiseFloor === null || rms < noiseFloor ? rms : noiseFloor + (rms - noiseFloor) * 0.002;
+    const threshold = Math.max(SPEECH_RMS_FLOOR, noiseFloor * NOISE_MARGIN);
+
+    const heardBefore = state.heardSpeech;
+    if (rms >= threshold) {
+      speechRun += seconds;
+      silenceRun = 0;
+      if (speechRun >= SPEECH_ONSET_SECONDS) state.speaking = state.heardSpeech = true;
+    } else {
+      silenceRun += seconds;
+      speechRun = 0;
+      if (silenceRun >= SPEECH_HANGOVER_SECONDS) state.speaking = false;
+    }
+
+    state.shouldStart = !heardBefore && state.heardSpeech;
+
+    if (state.speaking) {
+      state.speechSeconds += seconds;
+      speechLevel = speechLevel ? speechLevel * 0.9 + rms * 0.1 : rms;
+    }
+
+    clippingFor = peak >= CLIPPING_PEAK ? CLIPPING_HOLD_SECONDS : Math.max(0, clippingFor - seconds);
+    state.warning = clippingFor > 0 ? 'clipping'
+      : !state.heardSpeech ? null
+      : speechLevel > LOUD_RMS ? 'loud'
+      : speechLevel < QUIET_RMS ? 'quiet'
+      : null;
+
+    state.shouldStop = autoStopSeconds > 0 && state.heardSpeech && silenceRun >= autoStopSeconds;
+    return { ...state };
+  };
+
+  return { push };
+}
+
+/** RMS and peak of a block of time-domain samples. */
+export function measureFrame(samples: Float32Array): VadFrame {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return { rms: Math.sqrt(sum / Math.max(1, samples.length)), peak };
+}
@@ -0,0 +1,102 @@
+import { CEFRLevel, VoicePace } from "../types";
+import { getCurriculumLevel } from "../curriculum";
+
+// =============================================
+// TEACHER VOICE CATALOG
+// Which prebuilt voice reads the model presentation, how fast, and in
+// what style. Settings are remembered per child, so siblings sharing a
+// tablet each keep the teacher they like.
+// =============================================
+
+export interface TeacherVoiceOption {
+  id: string;
+  label: string;
+  gender: 'female' | 'male';
+  description: string;
+}
+
+export const TEACHER_VOICES: TeacherVoiceOption[] = [
+  { id: 'Kore', label: 'Cô Kore', gender: 'female', description: 'Rõ ràng, chắc chắn' },
+  { id: 'Aoede', label: 'Cô Aoede', gender: 'female', description: 'Nhẹ nhàng, thoải mái' },
+  { id: 'Leda', label: 'Cô Leda', gender: 'female', description: 'Trẻ trung' },
+  { id: 'Zephyr', label: 'Cô Zephyr', gender: 'female', description: 'Tươi sáng' },
+  { id: 'Puck', label: 'Thầy Puck', gender: 'male', description: 'Vui vẻ, hào hứng' },
+  { id: 'Charon', label: 'Thầy Charon', gender: 'male', description: 'Điềm đạm, dễ hiểu' },
+  { id: 'Fenrir', label: 'Thầy Fenrir', gender: 'male', description: 'Sôi nổi' },
+  { id: 'Orus', label: 'Thầy Orus', gender: 'male', description: 'Chắc chắn' },
+];
+
+export const DEFAULT_VOICE_NAME = 'Kore';
+
+export const VOICE_PACES: { id: VoicePace; label: string; instruction: string }[] = [
+  { id: 'slow', label: 'Chậm', instruction: 'Read slowly and clearly for a young English learner, with short pauses between sentences' },
+  { id: 'normal', label: 'Vừa', instruction: 'Read clearly at a calm, natural pace' },
+  { id: 'lively', label: 'Nhanh nhẹn', instruction: 'Read at a lively, natural conversational pace' },
+];
+
+// Playback speed of the "slow playback" option; applied on the device, no new synthesis needed
+export const SLOW_PLAYBACK_RATE = 0.8;
+
+export interface TeacherVoiceSettings {
+  voiceName: string;
+  // null follows the default pace of the lesson level
+  pace: VoicePace | null;
+  // Free-form style for the voice, e.g. "cheerful and warm"
+  style: string;
+  slowPlayback: boolean;
+}
+
+export const DEFAULT_VOICE_SETTINGS: TeacherVoiceSettings = {
+  voiceName: DEFAULT_VOICE_NAME,
+  pace: null,
+  style: '',
+  slowPlayback: false,
+};
+
+// What the TTS model is asked for: the voice and a style instruction put before the text
+export interface TeacherVoice {
+  voiceName: string;
+  instruction: string;
+}
+
+/** Resolves the settings into a concrete voice for a lesson at the given level. */
+export function resolveTeacherVoice(settings: TeacherVoiceSettings, level: CEFRLevel): TeacherVoice {
+  const pace = settings.pace || getCurriculumLevel(level).teacherPace;
+  const paceInstruction = VOICE_PACES.find(p => p.id === pace)!.instruction;
+  const style = settings.style.trim();
+  return {
+    voiceName: settings.voiceName,
+    instruction: style ? `${paceInstruction}, in a ${style} voice` : paceInstruction,
+  };
+}
+
+// =============================================
+// PER-CHILD SETTINGS
+// =============================================
+
+type VoiceProfiles = Record<string, TeacherVoiceSettings>;
+
+const profileKey = (childName: string) => childName.trim().toLowerCase();
+
+function readProfiles(): VoiceProfiles {
+  try {
+    const stored = JSON.parse(localStorage.getItem('teacher_voice_profiles') || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getVoiceSettings(childName: string): TeacherVoiceSettings {
+  const stored = readProfiles()[profileKey(childName)];
+  const settings = { ...DEFAULT_VOICE_SETTINGS, ...stored };
+  // A voice removed from the catalog falls back to the default teacher
+  if (!TEACHER_VOICES.some(v => v.id === settings.voiceName)) settings.voiceName = DEFAULT_VOICE_NAME;
+  return settings;
+}
+
+export function setVoiceSettings(childName: string, settings: TeacherVoiceSettings) {
+  const profiles = readProfiles();
+  profiles[profileKey(childName)] = settings;
+  localStorage.setItem('teacher_voice_profiles', JSON.stringify(profiles));
+}
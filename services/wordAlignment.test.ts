@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { alignWords, summarizeAlignment } from './wordAlignment';
+
+const verdicts = (script: string, transcript: string) => alignWords(script, transcript).map(w => w.verdict);
+
+describe('alignWords', () => {
+  it('marks a faithful reading as correct, ignoring case and punctuation', () => {
+    expect(verdicts('This is my cat.', 'this is my cat')).toEqual(['correct', 'correct', 'correct', 'correct']);
+  });
+
+  it('finds misread, skipped and extra words', () => {
+    const aligned = alignWords('This is my big cat.', 'this is a my cat cat');
+    expect(aligned).toEqual([
+      { verdict: 'correct', script: 'This', spoken: 'this' },
+      { verdict: 'correct', script: 'is', spoken: 'is' },
+      { verdict: 'inserted', spoken: 'a' },
+      { verdict: 'correct', script: 'my', spoken: 'my' },
+      { verdict: 'substituted', script: 'big', spoken: 'cat' },
+      { verdict: 'correct', script: 'cat.', spoken: 'cat' },
+    ]);
+  });
+
+  it('ignores stand-alone punctuation in the script', () => {
+    expect(verdicts('Cats — and dogs', 'cats and dogs')).toEqual(['correct', 'correct', 'correct']);
+  });
+});
+
+describe('summarizeAlignment', () => {
+  it('counts words stopped short of the end as not reached, not skipped', () => {
+    const summary = summarizeAlignment(alignWords('I like my cat very much.', 'I like my cat'));
+    expect(summary).toMatchObject({ scriptWords: 6, correct: 4, omitted: 2, accuracy: 67, completion: 67 });
+  });
+
+  it('counts a skipped word in the middle against completion too', () => {
+    const summary = summarizeAlignment(alignWords('I like my cat.', 'I my cat'));
+    expect(summary).toMatchObject({ correct: 3, omitted: 1, accuracy: 75, completion: 100 });
+  });
+
+  it('gives zero for an empty script', () => {
+    expect(summarizeAlignment(alignWords('', 'hello'))).toMatchObject({ scriptWords: 0, accuracy: 0, completion: 0 });
+  });
+});
@@ -0,0 +1,97 @@
+import { splitWords } from "./scriptParser";
+import { normalizeWord } from "./speechAlignment";
+
+// =============================================
+// WORD ALIGNMENT OF TRANSCRIPT AND SCRIPT
+// Lines up what the child said with the script word by word (edit
+// distance), so every script word is marked as read, misread or skipped
+// and extra words are shown where they were said. The counts give an
+// accuracy that does not depend on the examiner model's mood.
+// =============================================
+
+export type WordVerdict = 'correct' | 'substituted' | 'omitted' | 'inserted';
+
+export interface AlignedWord {
+  verdict: WordVerdict;
+  // The script word as written; absent for inserted words
+  script?: string;
+  // What the child said instead; absent for omitted words
+  spoken?: string;
+}
+
+export interface AlignmentSummary {
+  scriptWords: number;
+  correct: number;
+  substituted: number;
+  omitted: number;
+  inserted: number;
+  // Script words read correctly, 0..100
+  accuracy: number;
+  // How far into the script the child got, 0..100
+  completion: number;
+}
+
+/** The cheapest way to turn the script into the transcript, one word at a time. */
+export function alignWords(script: string, transcript: string): AlignedWord[] {
+  // Dashes and other stand-alone punctuation are not words to read
+  const isWord = (word: string) => /[a-z0-9]/i.test(word);
+  const target = splitWords(script).filter(isWord);
+  const spoken = splitWords(transcript).filter(isWord);
+  const a = target.map(normalizeWord);
+  const b = spoken.map(normalizeWord);
+
+  // cost[i][j]: edits to turn the first i script words into the first j spoken words
+  const cost = Array.from({ length: a.length + 1 }, (_, i) => {
+    const row = new Uint32Array(b.length + 1);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= b.length; j++) cost[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end; matches are preferred so ties keep words together
+  const aligned: AlignedWord[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      aligned.push({ verdict: a[i - 1] === b[j - 1] ? 'correct' : 'substituted', script: target[i - 1], spoken: spoken[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      aligned.push({ verdict: 'omitted', script: target[i - 1] });
+      i--;
+    } else {
+      aligned.push({ verdict: 'inserted', spoken: spoken[j - 1] });
+      j--;
+    }
+  }
+  return aligned.reverse();
+}
+
+export function summarizeAlignment(aligned: AlignedWord[]): AlignmentSummary {
+  const count = (verdict: WordVerdict) => aligned.filter(w => w.verdict === verdict).length;
+  const scriptWords = aligned.filter(w => w.script !== undefined);
+  // Words skipped at the very end mean the child stopped early, not that they skipped
+  let reached = scriptWords.length;
+  while (reached > 0 && scriptWords[reached - 1].verdict === 'omitted') reached--;
+  const percent = (n: number) => scriptWords.length ? Math.round((n / scriptWords.length) * 100) : 0;
+  const correct = count('correct');
+  return {
+    scriptWords: scriptWords.length,
+    correct,
+    substituted: count('substituted'),
+    omitted: count('omitted'),
+    inserted: count('inserted'),
+    accuracy: percent(correct),
+    completion: percent(reached),
+  };
+}
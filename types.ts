@@ -1,6 +1,9 @@
 
 export type CEFRLevel = 'Starters' | 'Movers' | 'Flyers' | 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
 
+// How fast the teacher voice speaks
+export type VoicePace = 'slow' | 'normal' | 'lively';
+
 export interface Theme {
   id: string;
   label: string;
@@ -27,12 +30,62 @@ export interface PresentationData {
   lessonVocab: VocabularyItem[];
 }
 
+// The part of a presentation the AI writes, before image and level are attached
+export type PresentationDraft = Pick<PresentationData, 'intro' | 'points' | 'conclusion' | 'lessonVocab'>;
+
+// One sentence of the script as the teacher reads it aloud
+export interface ScriptSentence {
+  part: 'intro' | 'point' | 'conclusion';
+  text: string;
+}
+
+export interface ComplianceCheck {
+  id: 'word-count' | 'sentence-length' | 'wordlist' | 'grammar';
+  label: string;
+  ok: boolean;
+  detail: string;
+}
+
+export interface ComplianceReport {
+  level: CEFRLevel;
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  offListWords: string[];
+  // Grammar focus structures of the level the script never uses
+  missingStructures: string[];
+  checks: ComplianceCheck[];
+  compliant: boolean;
+  revised: boolean;
+}
+
 export interface SpeakingMistake {
   word: string;
   type: 'mispronunciation' | 'omission' | 'hesitation';
   feedback: string;
 }
 
+// Measured from the recording itself, so they do not change between evaluations
+export interface FluencyMetrics {
+  // From the first to the last word, pauses included
+  speechSeconds: number;
+  // Time actually spent voicing words
+  voicedSeconds: number;
+  // How long the whole script takes at the level's comfortable pace
+  expectedSeconds: number;
+  words: number;
+  wordsPerMinute: number;
+  pauseCount: number;
+  longPauseCount: number;
+  meanPauseSeconds: number;
+  longestPauseSeconds: number;
+  // Pitch statistics over voiced frames; null when no pitch could be tracked
+  pitchLowHz: number | null;
+  pitchHighHz: number | null;
+  pitchRangeSemitones: number | null;
+  pitchVariationSemitones: number | null;
+}
+
 export interface EvaluationResult {
   score: number;
   pronunciation: number;
@@ -49,6 +102,7 @@ export interface EvaluationResult {
   suggestions: string[];
   keyVocabulary: VocabularyItem[];
   evaluationDate: string;
+  acousticMetrics?: FluencyMetrics;
 }
 
 export enum AppStatus {
@@ -56,6 +110,7 @@ export enum AppStatus {
   GENERATING = 'GENERATING',
   READY = 'READY',
   RECORDING = 'RECORDING',
+  SHADOWING = 'SHADOWING',
   REVIEWING = 'REVIEWING',
   EVALUATING = 'EVALUATING',
   RESULT = 'RESULT',
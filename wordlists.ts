@@ -0,0 +1,125 @@
+
+// Core vocabulary of the Cambridge Young Learners (YLE) lists, trimmed to the
+// words that show up in picture descriptions. Each list only holds the words
+// new at that stage; checks use the cumulative set up to the child's level.
+
+const words = (list: string) => list.trim().split(/\s+/);
+
+// Articles, pronouns, auxiliaries, prepositions... allowed at every level
+export const FUNCTION_WORDS = new Set(words(`
+  a an the and or but so because if then than that this these those there here
+  i me my mine you your yours he him his she her hers it its we us our ours they them their theirs
+  am is are was were be been being do does did have has had got can could will would shall should must may might
+  not no yes to of in on at by for with from up down into out over under about after before near as
+  what who whose where when why how which all some any many much more most very too also only just
+  one two three four five six seven eight nine ten eleven twelve first second third
+  hello hi goodbye bye please thank thanks ok okay everyone everybody today now
+`));
+
+export const STARTERS_WORDS = words(`
+  alphabet animal answer apple arm armchair ask baby back bad badminton bag ball banana baseball basketball bath bathroom
+  beach bean bear beautiful bed bedroom behind between big bike bird birthday black blue board boat body book bookcase
+  bookshop boots bounce box boy bread breakfast brother brown burger bus cake camera can't car carrot cat catch chair
+  chicken child children chips chocolate choose class classroom clean clock close clothes coconut colour come computer
+  cook count cousin cow crocodile cross cupboard dad daddy day desk dining dinner dirty dog doll donkey door draw
+  drawing dress drink drive duck eat egg elephant end english enjoy eraser evening example eye face family father
+  favourite find fish fishing flower fly food foot football fries friend frog fruit fun funny game garden get giraffe
+  girl give glasses go goat good grandfather grandma grandmother grandpa grape gray great green grey guitar hair hall
+  hand handbag happy hat head helicopter hippo hit hobby hockey home horse house ice cream jacket jeans juice jump kick
+  kid kitchen kite know lamp laugh leg lemon lemonade lesson let's letter like lime listen live living lizard long look
+  lorry love lunch make man mango mat me meat milk mirror mom monkey monster morning mother motorbike mouse mouth mum
+  music name new nice night nose number old onion open orange paint painting paper park pea pear pen pencil person
+  phone photo piano pick picture pineapple pink plane play playground please point potato purple put question radio
+  read red rice ride right robot room rubber ruler run sad sand say school sea see sentence sheep shell shirt shoe shop
+  short show sing sister sit skateboard skirt sleep small smile snake soccer sock sofa song sorry spell spider sport
+  stand start store story street sun supermarket swim table table-tennis tablet tail take talk teacher television
+  tennis thing throw tiger toy train tree truck try tv ugly understand walk wall want watch water wave wear white
+  window woman word world write year yellow young zoo
+`);
+
+export const MOVERS_WORDS = words(`
+  above across address adult after-school afternoon air always angry asleep aunt awake balcony bank basement bat beard
+  bedroom better big bird blanket blond boring bottle bottom bowl brave break bus station busy buy cafe call careful
+  catch cheese circle circus city climb cloud cloudy coat cold comic complete cook cough cry cup curly dangerous
+  different difficult dinosaur doctor dolphin downstairs dream dress drive driver drop dry early earache ears easy
+  email every everyone everything exciting fall fan farm farmer fat feed field film fine fire fireman fix floor flat
+  forest funfair glass goal grass ground grow hair headache healthy help hop hospital hot hungry hurt island jungle
+  kangaroo kitten lake large last laugh leaf leave library lift light lion little lose loud map market matter
+  medicine message milkshake minute moon more most mountain move naughty need next noise noisy nurse often outside
+  panda parent party penguin pet pick picnic pirate place plant play plate player poor present pretty prize puppy
+  quiet quick rabbit rain rainbow ride river road rock round sail sandwich scarf score sea seat shark shop shout
+  sick skip sky sleep slow smile snail snow soup stair station stomach store strong sun sunny swim take taxi tea
+  teeth temperature tent than thin third tired toothache towel town treasure turtle twin umbrella uncle upstairs
+  village wake warm wash waterfall weak weather well wet whale wind windy with wolf worse
+`);
+
+export const FLYERS_WORDS = words(`
+  actor afraid agree airport alone already ambulance amazing anything appear arrive art artist astronaut autumn
+  backpack bakery band beetle believe belt bicycle bin biscuit blood bored borrow bracelet break bridge brush build
+  business butter butterfly calendar camp card castle cave century channel chemist chopsticks clever college
+  competition conversation cook corner costume could crown cushion customer cut dark decide deep dentist desert
+  diary dictionary dinosaur discover drum during earth east edge else empty engineer enormous entrance envelope
+  environment everywhere exam excellent explain factory fair fast festival final finger fire fix flag flashlight
+  flood fog foggy follow forget fork fridge friendly frightened future gate gentle geography glove glue gold golf
+  grass guess gym half heavy history holiday hope horrible hotel hurry ice idea important insect instrument
+  internet invent invite jam jewellery journalist journey kind king knife language late law lazy lightning lock
+  lucky machine magazine magic manager mechanic meal medal member metal midday midnight might mind mistake model
+  museum musician natural necklace nest newspaper noon north note novel ocean office orchestra own pain palace
+  passenger pepper perfect photographer pilot plan planet plastic police pollution popular postcard prefer prepare
+  prince princess programme project protect pyramid queen race rather recycle remember repeat rescue restaurant
+  ring rocket rucksack rule safe salt science scissors secret sell send serious shelf shine shy silver sky smell
+  soap soft south space spoon spring square stamp steal storm strange stripe subject suitcase summer surprise
+  swan symbol tidy tool tooth tortoise traffic travel trip trousers turn twice universe university useful usually
+  vegetable violin volcano wait wallet weekend west wide wild wing winter wish without wood wool worried wrong
+`);
+
+// Beyond the YLE lists: core vocabulary new at CEFR A2 and B1 (after the
+// English Vocabulary Profile), again only the words new at that level.
+
+export const A2_WORDS = words(`
+  able abroad accident across act action activity add adventure advice afford age ago agree ahead aim
+  allow almost along among amount ancient angry area arrive attack attention available average avoid award
+  away beach bear beat become beginning belong below bill bit blow boil border bottom brain branch breath
+  bright bring burn cage calm capital care career carry case cause celebrate centre certain chance change
+  cheap check choice clear climate coast collect common community compare condition contain continue control
+  cool copy correct cost country couple course cover crowd culture damage danger dead deal death describe
+  destroy detail die diet disappear disease distance dry earn easily effect either electric electricity
+  else emergency endangered energy enough enter escape especially event exactly expect expensive experience
+  explore extra extreme fact fail famous far fear feather feeling fight fill finally fit food forever form
+  free fresh fuel full gas global goal ground group guide habitat hang happen hard hate health hear heat
+  hide hill hole huge human hunt hunter ice ill imagine improve include increase information inside instead
+  interest interesting keep kill land laptop least leather less level lie life limit line litter local
+  loss lot low main mark material matter mean meet memory middle mind miss moment most mostly nature near
+  nearly nobody none normal nothing notice nowhere somewhere anywhere ocean oil once opinion other outdoor part past path pay peace
+  people plan planet plastic poison polar pollute population possible power predator prey probably problem
+  produce pull push rainforest rare reach ready real reason recycle reduce rest result return rich risk
+  rubbish safe save search season seed sense several shape share shelter side sign simple since size skin
+  smoke social soil solve someone something sometimes soon sound space special species speed spend spread
+  stay step still stop strange stream such suddenly support sure survive take temperature terrible thick
+  through throw together top total toward trouble true type unusual use various view visit voice warn
+  waste wave way weight whole wild wildlife win wood work worry yet zone
+  deforestation
+`);
+
+export const B1_WORDS = words(`
+  absolutely access according achieve actually adapt affect agriculture alive although amazing analyse
+  announce anxious apparently approach appropriate argue attempt attitude attract audience aware balance
+  basic behave behaviour benefit biodiversity bite breed capture carbon challenge characteristic chemical
+  claim coastal combine comfortable commercial compete complex concern conclude conservation conserve
+  consider construct consume consumption contribute cooperate coral creature critical crop cruel current
+  decrease defend define degree depend desert design despite determine develop development device
+  dramatic drought ecological ecosystem economy effective efficient effort eliminate emission encourage
+  endanger ensure entire environmental equipment essential establish estimate eventually evidence evolve
+  exist expand expert extinct extinction factor feature fertile fishing focus forestry fragile frequent
+  function generation genetic govern government gradually harm harmful harvest hunting identify illegal
+  impact increase industry influence initial insect instance introduce involve issue justify labour lack
+  latest likely logging maintain majority manage mammal measure method migrate migration moreover native
+  natural necessary negative nevertheless numerous observe obtain occur offspring organisation organism
+  origin otherwise overall particular pattern permanent physical poach poacher policy positive potential
+  preserve pressure prevent previous primary process progress prohibit proper protection provide public
+  purpose quality range rapidly recent recover region regular release rely remain remove replace reproduce
+  require research reserve resource respond responsibility responsible restore reveal role rural sanctuary
+  scientist significant similar situation source specific stable status strategy suffer suitable supply
+  surface surround survival sustainable threat threaten tiny tourism tourist toxic tradition transport
+  tropical unless unique urban valuable variety vast vital volunteer vulnerable whereas widespread
+`);